@@ -0,0 +1,116 @@
+import * as path from 'path';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { Logger } from 'winston';
+import { Document, isMap, isSeq, parse, parseDocument, YAMLSeq } from 'yaml';
+import { FailedCheckovCheck, RiskAcceptance } from './checkov';
+import { getWorkspacePath, isPathInside } from './utils';
+
+export const ACCEPTANCES_FILE_NAME = '.checkov-acceptances.yaml';
+
+// One entry of the `acceptances` list; file paths are relative to the workspace folder
+interface RiskAcceptanceEntry {
+    file: string;
+    resource: string;
+    check_id: string;
+    owner: string;
+    expires: string;
+    reason?: string;
+}
+
+export const isAcceptancesFile = (fileName: string): boolean => path.basename(fileName) === ACCEPTANCES_FILE_NAME;
+
+const getAcceptanceEnd = (acceptance: RiskAcceptance): Date => new Date(`${acceptance.expires}T23:59:59.999`);
+
+/**
+ * Acceptances hold until the end of their expiry day
+ */
+export const isAcceptanceExpired = (acceptance: RiskAcceptance, now = new Date()): boolean => getAcceptanceEnd(acceptance) < now;
+
+/**
+ * Returns when the first of the acceptances of the given checks that still hold expires, if any
+ */
+export const getNextAcceptanceExpiry = (failedChecks: FailedCheckovCheck[], now = new Date()): Date | undefined => failedChecks
+    .map(failedCheck => failedCheck.acceptance && !isAcceptanceExpired(failedCheck.acceptance, now) ? getAcceptanceEnd(failedCheck.acceptance) : undefined)
+    .reduce<Date | undefined>((next, end) => end && (!next || end < next) ? end : next, undefined);
+
+/**
+ * Findings whose risk has been accepted are hidden until the acceptance expires
+ */
+export const isAcceptedRisk = (failedCheck: FailedCheckovCheck): boolean => !!failedCheck.acceptance && !isAcceptanceExpired(failedCheck.acceptance);
+
+/**
+ * Findings that count as open: neither part of the baseline nor an accepted risk
+ */
+export const isOpenFinding = (failedCheck: FailedCheckovCheck): boolean => !failedCheck.baselined && !isAcceptedRisk(failedCheck);
+
+const getAcceptancesFilePath = (logger: Logger, filePath: string): string | undefined => {
+    const workspacePath = getWorkspacePath(logger, filePath);
+    return workspacePath && isPathInside(workspacePath, filePath) ? path.join(workspacePath, ACCEPTANCES_FILE_NAME) : undefined;
+};
+
+const getRelativeFilePath = (acceptancesPath: string, filePath: string): string =>
+    path.relative(path.dirname(acceptancesPath), filePath).split(path.sep).join('/');
+
+const loadAcceptances = (logger: Logger, acceptancesPath: string): RiskAcceptanceEntry[] => {
+    try {
+        const acceptances = parse(readFileSync(acceptancesPath, 'utf8'))?.acceptances;
+        return Array.isArray(acceptances) ? acceptances.filter(entry => entry?.check_id && entry?.expires).map(entry => ({ ...entry, expires: String(entry.expires) })) : [];
+    } catch (error) {
+        logger.warn(`Failed to read risk acceptances file ${acceptancesPath}`, { error });
+        return [];
+    }
+};
+
+/**
+ * Attaches the risk acceptance recorded for each failed check of the given file, if any, expired or not
+ */
+export const markAcceptedChecks = (logger: Logger, filePath: string, failedChecks: FailedCheckovCheck[]): FailedCheckovCheck[] => {
+    const acceptancesPath = getAcceptancesFilePath(logger, filePath);
+    const fileAcceptances = acceptancesPath && existsSync(acceptancesPath)
+        ? loadAcceptances(logger, acceptancesPath).filter(entry => entry.file === getRelativeFilePath(acceptancesPath, filePath))
+        : [];
+
+    // acceptances that were removed from the file no longer apply
+    return failedChecks.map(failedCheck => {
+        const entry = fileAcceptances.find(acceptance => acceptance.resource === failedCheck.resource && acceptance.check_id === failedCheck.checkId);
+        return { ...failedCheck, acceptance: entry ? { owner: entry.owner, expires: entry.expires, reason: entry.reason } : undefined };
+    });
+};
+
+/**
+ * Adds a risk acceptance to the acceptances file of the workspace folder, keeping the comments and layout of the file.
+ * An earlier acceptance of the same finding is replaced.
+ */
+export const recordAcceptance = (logger: Logger, filePath: string, failedCheck: FailedCheckovCheck, acceptance: RiskAcceptance): void => {
+    const acceptancesPath = getAcceptancesFilePath(logger, filePath);
+    if (!acceptancesPath) {
+        throw new Error(`${filePath} is not part of a workspace folder`);
+    }
+
+    const document: Document = parseDocument(existsSync(acceptancesPath) ? readFileSync(acceptancesPath, 'utf8') : '');
+    if (document.errors.length > 0) {
+        throw new Error(`${acceptancesPath} is not valid YAML: ${document.errors[0].message}`);
+    }
+    if (!isMap(document.contents)) {
+        document.contents = document.createNode({});
+    }
+    if (!isSeq(document.get('acceptances'))) {
+        document.set('acceptances', new YAMLSeq());
+    }
+
+    const entry: RiskAcceptanceEntry = {
+        file: getRelativeFilePath(acceptancesPath, filePath),
+        resource: failedCheck.resource,
+        check_id: failedCheck.checkId,
+        owner: acceptance.owner,
+        expires: acceptance.expires,
+        ...(acceptance.reason ? { reason: acceptance.reason } : {})
+    };
+    const acceptances = document.get('acceptances') as YAMLSeq;
+    acceptances.items = acceptances.items.filter(item => !(isMap(item)
+        && item.get('file') === entry.file && item.get('resource') === entry.resource && item.get('check_id') === entry.check_id));
+    acceptances.add(document.createNode(entry));
+
+    writeFileSync(acceptancesPath, document.toString());
+    logger.info(`Recorded risk acceptance of ${entry.check_id} on ${entry.resource} in ${acceptancesPath} until ${entry.expires}`);
+};
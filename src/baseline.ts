@@ -0,0 +1,59 @@
+import * as path from 'path';
+import { existsSync, readFileSync } from 'fs';
+import { Logger } from 'winston';
+import { FailedCheckovCheck } from './checkov';
+import { getWorkspacePath, isPathInside } from './utils';
+
+export const BASELINE_FILE_NAME = '.checkov.baseline';
+
+// Format written by `checkov --create-baseline`
+interface CheckovBaseline {
+    failed_checks?: {
+        file: string;
+        findings: {
+            resource: string;
+            check_ids: string[];
+        }[];
+    }[];
+}
+
+/**
+ * Returns the baseline of the workspace folder that owns the given file, if one has been created
+ */
+export const getBaselineFilePath = (logger: Logger, filePath?: string): string | undefined => {
+    const workspacePath = getWorkspacePath(logger, filePath);
+    if (!workspacePath) return undefined;
+
+    const baselinePath = path.join(workspacePath, BASELINE_FILE_NAME);
+    return existsSync(baselinePath) ? baselinePath : undefined;
+};
+
+const loadBaseline = (logger: Logger, baselinePath: string): CheckovBaseline | undefined => {
+    try {
+        return JSON.parse(readFileSync(baselinePath, 'utf8'));
+    } catch (error) {
+        logger.warn(`Failed to read baseline file ${baselinePath}`, { error });
+        return undefined;
+    }
+};
+
+/**
+ * Flags every failed check of the given file that is already part of the baseline.
+ * Baseline file paths are relative to the directory it was created for, e.g. `/modules/s3/main.tf`.
+ */
+export const markBaselinedChecks = (logger: Logger, filePath: string, failedChecks: FailedCheckovCheck[], baselinePath = getBaselineFilePath(logger, filePath)): FailedCheckovCheck[] => {
+    const baseline = baselinePath ? loadBaseline(logger, baselinePath) : undefined;
+    if (!baselinePath || !baseline) return failedChecks;
+
+    const baselineRoot = path.dirname(baselinePath);
+    if (!isPathInside(baselineRoot, filePath)) return failedChecks;
+
+    const relativePath = `/${path.relative(baselineRoot, filePath).split(path.sep).join('/')}`;
+    const fileEntry = baseline.failed_checks?.find(entry => entry.file === relativePath);
+    if (!fileEntry) return failedChecks;
+
+    return failedChecks.map(failedCheck => ({
+        ...failedCheck,
+        baselined: fileEntry.findings.some(finding => finding.resource === failedCheck.resource && finding.check_ids.includes(failedCheck.checkId))
+    }));
+};
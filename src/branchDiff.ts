@@ -0,0 +1,48 @@
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { FailedCheckovCheck } from './checkov';
+import { createCheckovIdentityKey } from './utils';
+
+// Base-side results are cached under the scanned file's own entry, so clearing its cache clears them as well
+export const MERGE_BASE_CACHE_SUFFIX = '#merge-base';
+
+const mergeBaseStagingDir = path.join(os.tmpdir(), 'checkov-prismaless', 'merge-base');
+
+export const getContentHash = (content: string): string => crypto.createHash('md5').update(content).digest('hex');
+
+/**
+ * Writes the merge-base version of a file to a temp directory, keeping its file name so Checkov detects the same framework
+ */
+export const stageMergeBaseFile = (fileName: string, content: string, contentHash: string): string => {
+    const stagingDir = path.join(mergeBaseStagingDir, contentHash);
+    const stagedFilePath = path.join(stagingDir, path.basename(fileName));
+    if (!existsSync(stagedFilePath)) {
+        mkdirSync(stagingDir, { recursive: true });
+        writeFileSync(stagedFilePath, content);
+    }
+    return stagedFilePath;
+};
+
+/**
+ * Returns the findings that have no counterpart in the base results. Findings are matched by check ID and resource
+ * rather than by line, and each base finding cancels out at most one current finding.
+ */
+export const getFailedChecksNotInBase = (failedChecks: FailedCheckovCheck[], baseFailedChecks: FailedCheckovCheck[]): FailedCheckovCheck[] => {
+    const baseCounts = new Map<string, number>();
+    for (const baseFailedCheck of baseFailedChecks) {
+        const key = createCheckovIdentityKey(baseFailedCheck);
+        baseCounts.set(key, (baseCounts.get(key) || 0) + 1);
+    }
+
+    return failedChecks.filter(failedCheck => {
+        const key = createCheckovIdentityKey(failedCheck);
+        const remaining = baseCounts.get(key) || 0;
+        if (remaining > 0) {
+            baseCounts.set(key, remaining - 1);
+            return false;
+        }
+        return true;
+    });
+};
@@ -0,0 +1,49 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+
+const bufferStagingDir = path.join(os.tmpdir(), 'checkov-prismaless', 'buffers');
+
+// Untitled documents have no file name, so one is picked from the language for Checkov to detect the framework
+const fileNamesByLanguage: Record<string, string> = {
+    terraform: 'main.tf',
+    'terraform-vars': 'terraform.tfvars',
+    hcl: 'main.hcl',
+    yaml: 'untitled.yaml',
+    json: 'untitled.json',
+    jsonc: 'untitled.json',
+    dockerfile: 'Dockerfile',
+    bicep: 'main.bicep',
+    helm: 'untitled.yaml',
+    python: 'untitled.py',
+    javascript: 'untitled.js',
+    typescript: 'untitled.ts'
+};
+
+const getStagingDir = (document: vscode.TextDocument): string =>
+    path.join(bufferStagingDir, crypto.createHash('md5').update(document.uri.toString()).digest('hex'));
+
+export const getStagedFileName = (document: vscode.TextDocument): string => {
+    if (!document.isUntitled) {
+        return path.basename(document.fileName);
+    }
+    return fileNamesByLanguage[document.languageId] || `untitled.${document.languageId}`;
+};
+
+/**
+ * Writes the current content of a (possibly unsaved or untitled) document to a temp file named like the document,
+ * so it can be scanned by Checkov. Each document always reuses the same temp file.
+ */
+export const stageDocument = (document: vscode.TextDocument): string => {
+    const stagingDir = getStagingDir(document);
+    const stagedFilePath = path.join(stagingDir, getStagedFileName(document));
+    mkdirSync(stagingDir, { recursive: true });
+    writeFileSync(stagedFilePath, document.getText());
+    return stagedFilePath;
+};
+
+export const removeStagedDocument = (document: vscode.TextDocument): void => {
+    rmSync(getStagingDir(document), { recursive: true, force: true });
+};
@@ -0,0 +1,104 @@
+import * as vscode from 'vscode';
+import { CatalogCheck } from './checkov';
+import { getSeverityForCheckId, mapSeverityToVSCode } from './utils';
+
+export const CHECK_CATALOG_VIEW_ID = 'checkov-prismaless.checkCatalog';
+
+const severityIcons: Record<vscode.DiagnosticSeverity, string> = {
+    [vscode.DiagnosticSeverity.Error]: 'error',
+    [vscode.DiagnosticSeverity.Warning]: 'warning',
+    [vscode.DiagnosticSeverity.Information]: 'info',
+    [vscode.DiagnosticSeverity.Hint]: 'lightbulb'
+};
+
+interface FrameworkNode {
+    kind: 'framework';
+    framework: string;
+}
+
+export interface CatalogCheckNode {
+    kind: 'check';
+    check: CatalogCheck;
+}
+
+export type CheckCatalogTreeNode = FrameworkNode | CatalogCheckNode;
+
+/**
+ * A check matches a search when every word of it is found in its ID, name, resource type, framework or severity
+ */
+const matchesSearch = (check: CatalogCheck, search: string): boolean => {
+    const text = [check.checkId, check.name, check.entity, check.framework, getSeverityForCheckId(check.checkId)].join(' ').toLowerCase();
+    return search.toLowerCase().split(/\s+/).every(word => text.includes(word));
+};
+
+/**
+ * Every check the installed Checkov knows, grouped by framework
+ */
+export class CheckCatalogTreeDataProvider implements vscode.TreeDataProvider<CheckCatalogTreeNode> {
+    private checks: CatalogCheck[] = [];
+    private search = '';
+    private readonly changeEmitter = new vscode.EventEmitter<CheckCatalogTreeNode | undefined>();
+
+    readonly onDidChangeTreeData: vscode.Event<CheckCatalogTreeNode | undefined> = this.changeEmitter.event;
+
+    setChecks(checks: CatalogCheck[]): void {
+        this.checks = checks;
+        this.changeEmitter.fire(undefined);
+    }
+
+    getChecks(): CatalogCheck[] {
+        return this.checks;
+    }
+
+    refresh(): void {
+        this.changeEmitter.fire(undefined);
+    }
+
+    setSearch(search: string): void {
+        this.search = search.trim();
+        this.changeEmitter.fire(undefined);
+    }
+
+    getSearch(): string {
+        return this.search;
+    }
+
+    getMatchingChecks(): CatalogCheck[] {
+        return this.search ? this.checks.filter(check => matchesSearch(check, this.search)) : this.checks;
+    }
+
+    getTreeItem(node: CheckCatalogTreeNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'framework': {
+                const count = this.getMatchingChecks().filter(check => check.framework === node.framework).length;
+                // searches usually target a few checks, so show them right away
+                const item = new vscode.TreeItem(node.framework, this.search ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed);
+                item.description = `${count} checks`;
+                return item;
+            }
+            case 'check': {
+                const { check } = node;
+                const severity = getSeverityForCheckId(check.checkId).toUpperCase();
+                const item = new vscode.TreeItem(check.checkId, vscode.TreeItemCollapsibleState.None);
+                item.description = `${severity} · ${check.name}`;
+                item.tooltip = [`${check.checkId}: ${check.name}`, `Severity: ${severity}`, check.entity && `Applies to: ${check.entity}`, check.guideline]
+                    .filter(Boolean).join('\n');
+                item.iconPath = new vscode.ThemeIcon(severityIcons[mapSeverityToVSCode(severity)]);
+                item.contextValue = check.guideline ? 'checkovCatalogCheckWithGuideline' : 'checkovCatalogCheck';
+                return item;
+            }
+        }
+    }
+
+    getChildren(node?: CheckCatalogTreeNode): CheckCatalogTreeNode[] {
+        const checks = this.getMatchingChecks();
+        if (!node) {
+            return [...new Set(checks.map(check => check.framework))].sort().map(framework => ({ kind: 'framework', framework }));
+        }
+        return node.kind === 'framework'
+            ? checks.filter(check => check.framework === node.framework)
+                .sort((a, b) => a.checkId.localeCompare(b.checkId, undefined, { numeric: true }))
+                .map(check => ({ kind: 'check', check }))
+            : [];
+    }
+}
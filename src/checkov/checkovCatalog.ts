@@ -0,0 +1,80 @@
+import { Logger } from 'winston';
+import { CheckovInstallation } from './checkovInstaller';
+import { runImage } from './containerRuntime';
+import { asyncExec } from '../utils';
+
+export interface CatalogCheck {
+    checkId: string;
+    name: string;
+    framework: string;
+    // e.g. `resource` or `data`, and the resource type the check applies to
+    type?: string;
+    entity?: string;
+    guideline?: string;
+}
+
+type RawCatalogEntry = Record<string, unknown>;
+
+const checkIdPattern = /^(CKV2?|BC)_[A-Z0-9_]+$/;
+
+const getField = (entry: RawCatalogEntry, ...names: string[]): string | undefined => {
+    const key = Object.keys(entry).find(candidate => names.includes(candidate.toLowerCase().replace(/[\s_-]/g, '')));
+    const value = key ? entry[key] : undefined;
+    return value === undefined || value === null || value === '' ? undefined : String(value);
+};
+
+const toCatalogCheck = (entry: RawCatalogEntry): CatalogCheck | undefined => {
+    const checkId = getField(entry, 'id', 'checkid');
+    if (!checkId) return undefined;
+    return {
+        checkId,
+        name: getField(entry, 'policy', 'name', 'checkname') || '',
+        framework: getField(entry, 'iac', 'framework', 'checktype') || 'unknown',
+        type: getField(entry, 'type'),
+        entity: getField(entry, 'entity', 'resource'),
+        guideline: getField(entry, 'resourceguidelines', 'guideline', 'guidelines')
+    };
+};
+
+/**
+ * Older Checkov versions ignore `-o json` for `--list` and print a table with an `Id | Type | Entity | Policy | IaC` header
+ */
+const parseCatalogTable = (output: string): RawCatalogEntry[] => {
+    const rows = output.split('\n')
+        .filter(line => line.trim().startsWith('|'))
+        .map(line => line.split('|').slice(1, -1).map(cell => cell.trim()));
+    const header = rows.find(row => row.some(cell => cell.toLowerCase() === 'id'));
+    if (!header) return [];
+
+    return rows
+        .filter(row => row !== header && row.some(cell => checkIdPattern.test(cell)))
+        .map(row => Object.fromEntries(header.map((name, index) => [name || `column${index}`, row[index]])));
+};
+
+export const parseCheckovCatalog = (output: string): CatalogCheck[] => {
+    let entries: RawCatalogEntry[];
+    try {
+        const parsed = JSON.parse(output);
+        entries = Array.isArray(parsed) ? parsed : Object.values(parsed).flatMap(value => Array.isArray(value) ? value : []);
+    } catch {
+        entries = parseCatalogTable(output);
+    }
+    return entries.map(toCatalogCheck).filter((check): check is CatalogCheck => check !== undefined);
+};
+
+/**
+ * Lists every check the installed Checkov knows, using the same installation as scans
+ */
+export const listCheckovChecks = async (logger: Logger, checkovInstallation: CheckovInstallation): Promise<CatalogCheck[]> => {
+    const { checkovInstallationMethod, checkovPath, containerRuntime, image } = checkovInstallation;
+    // the full list of checks is a few MB
+    const execOptions = { maxBuffer: 1024 * 1024 * 50 };
+    logger.debug(`Listing checks with ${checkovInstallationMethod === 'docker' ? image : checkovPath}`);
+
+    const stdout = checkovInstallationMethod === 'docker' && containerRuntime && image
+        ? await runImage(containerRuntime, image, ['--list', '-o', 'json'], execOptions)
+        : (await asyncExec(`${checkovPath} --list -o json`, execOptions))[0];
+    const checks = parseCheckovCatalog(stdout.replace(/.\[0m/g, ''));
+    logger.info(`Checkov knows ${checks.length} checks`);
+    return checks;
+};
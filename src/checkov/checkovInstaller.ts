@@ -4,6 +4,7 @@ import * as os from 'os';
 import { Logger } from 'winston';
 import { asyncExec, isWindows } from '../utils';
 import { verifyPythonVersion } from '../configuration';
+import { ContainerRuntime, getContainerRuntime, getImageReference, imageExists, pullImage, runImage } from './containerRuntime';
 
 const isPipCheckovInstalledGlobally = async () => {
     try {
@@ -117,17 +118,17 @@ interface VersionCache {
 let versionCache: VersionCache | null = null;
 const VERSION_CACHE_TTL = 1000 * 60 * 60; // 1 hour
 
-const checkVersionHasDockerTag = async (version: string, logger: Logger): Promise<boolean> => {
+const checkVersionHasDockerTag = async (logger: Logger, runtime: ContainerRuntime, version: string): Promise<boolean> => {
     try {
-        await asyncExec(`docker pull bridgecrew/checkov:${version}`);
+        await pullImage(logger, runtime, getImageReference(runtime, version));
         return true;
     } catch (error) {
-        logger.debug(`Version ${version} does not have a corresponding Docker tag`, { error });
+        logger.debug(`Version ${version} does not have a corresponding image tag`, { error });
         return false;
     }
 };
 
-const resolveCheckovVersion = async (logger: Logger, requestedVersion: string): Promise<{ version: string, resolvedVersion: string }> => {
+const resolveCheckovVersion = async (logger: Logger, runtime: ContainerRuntime, requestedVersion: string): Promise<{ version: string, resolvedVersion: string }> => {
     // If a specific version is requested, use it directly
     if (requestedVersion !== 'latest') {
         return { version: requestedVersion, resolvedVersion: requestedVersion };
@@ -141,12 +142,12 @@ const resolveCheckovVersion = async (logger: Logger, requestedVersion: string):
 
     try {
         // First pull latest to get the current version number
-        await asyncExec('docker pull bridgecrew/checkov:latest');
-        const [versionOutput] = await asyncExec('docker run --rm --interactive bridgecrew/checkov:latest -v');
-        const version = versionOutput.trim();
+        const latestImage = getImageReference(runtime, 'latest');
+        await pullImage(logger, runtime, latestImage);
+        const version = (await runImage(runtime, latestImage, ['-v'])).trim();
 
         // Check if this specific version has a Docker tag
-        const hasDockerTag = await checkVersionHasDockerTag(version, logger);
+        const hasDockerTag = await checkVersionHasDockerTag(logger, runtime, version);
 
         // If the version has a tag, use it; otherwise use latest
         const resolvedVersion = hasDockerTag ? version : 'latest';
@@ -171,51 +172,128 @@ export interface CheckovInstallation {
     checkovPath: string;
     version?: string;  // The version to use in Docker commands
     actualVersion?: string;  // The actual Checkov version for display
+    // Container installations only: the runtime that runs Checkov and the full reference of its image
+    containerRuntime?: ContainerRuntime;
+    image?: string;
 }
 
+const createContainerInstallation = (runtime: ContainerRuntime, version: string, actualVersion: string): CheckovInstallation => ({
+    checkovInstallationMethod: 'docker',
+    checkovPath: runtime.executable,
+    version,  // This is what will be used for Docker commands
+    actualVersion,  // This is what will be shown in the UI
+    containerRuntime: runtime,
+    image: getImageReference(runtime, version)
+});
+
+/**
+ * An image pinned by tag or digest in the settings is pulled as-is; its Checkov version is only known by running it
+ */
+const installPinnedImage = async (logger: Logger, runtime: ContainerRuntime, pinnedImage: string): Promise<CheckovInstallation> => {
+    await pullImage(logger, runtime, pinnedImage);
+    const actualVersion = (await runImage(runtime, pinnedImage, ['-v'])).trim();
+    logger.info(`Checkov installed successfully using ${runtime.executable}.`, { image: pinnedImage, version: actualVersion });
+    return createContainerInstallation(runtime, actualVersion, actualVersion);
+};
+
 const installOrUpdateCheckovWithDocker = async (logger: Logger, checkovVersion: string): Promise<CheckovInstallation | null> => {
-    logger.info('Trying to install Checkov using Docker.');
+    const runtime = getContainerRuntime();
+    logger.info(`Trying to install Checkov using ${runtime.executable}.`);
     try {
-        const { version, resolvedVersion } = await resolveCheckovVersion(logger, checkovVersion);
-        const command = `docker pull bridgecrew/checkov:${resolvedVersion}`;
-        logger.debug(`Testing docker installation with command: ${command}`);
+        if (runtime.pinnedImage) return await installPinnedImage(logger, runtime, runtime.pinnedImage);
 
+        const { version, resolvedVersion } = await resolveCheckovVersion(logger, runtime, checkovVersion);
         try {
-            await asyncExec(command);
-            const checkovPath = 'docker';
-            logger.info('Checkov installed successfully using Docker.', { checkovPath, version: resolvedVersion });
-            const installation: CheckovInstallation = {
-                checkovInstallationMethod: 'docker',
-                checkovPath,
-                version: resolvedVersion,  // This is what will be used for Docker commands
-                actualVersion: version     // This is what will be shown in the UI
-            };
-            return installation;
+            await pullImage(logger, runtime, getImageReference(runtime, resolvedVersion));
+            logger.info(`Checkov installed successfully using ${runtime.executable}.`, { image: getImageReference(runtime, resolvedVersion) });
+            return createContainerInstallation(runtime, resolvedVersion, version);
         } catch (error) {
             // If specific version fails and it's not already 'latest', try falling back to latest
             if (resolvedVersion !== 'latest') {
                 logger.warn(`Failed to pull Checkov version ${resolvedVersion}, falling back to latest`, { error });
-                await asyncExec('docker pull bridgecrew/checkov:latest');
+                await pullImage(logger, runtime, getImageReference(runtime, 'latest'));
                 // Clear cache since version resolution failed
                 versionCache = null;
                 // When falling back to latest, we still want to show the actual version in the UI
-                const fallbackInstallation: CheckovInstallation = {
-                    checkovInstallationMethod: 'docker',
-                    checkovPath: 'docker',
-                    version: 'latest',      // Use latest for Docker commands
-                    actualVersion: version  // Show the actual version in UI
-                };
-                return fallbackInstallation;
+                return createContainerInstallation(runtime, 'latest', version);
             }
             throw error;
         }
     } catch (error) {
-        logger.error('Failed to install or update Checkov using Docker. Error: ', { error });
+        logger.error(`Failed to install or update Checkov using ${runtime.executable}. Error: `, { error });
         return null;
     }
 };
 
-export const installOrUpdateCheckov = async (logger: Logger, installationDir: string, checkovVersion: string): Promise<CheckovInstallation> => {
+/**
+ * Thrown in offline mode when no Checkov image, venv or executable is present locally
+ */
+export class CheckovNotAvailableOfflineError extends Error {
+    constructor(image: string) {
+        super(`Offline mode: no local Checkov found (image ${image}, pipenv venv or checkov executable)`);
+        this.name = 'CheckovNotAvailableOfflineError';
+    }
+}
+
+const findLocalDockerCheckov = async (logger: Logger, runtime: ContainerRuntime, checkovVersion: string): Promise<CheckovInstallation | null> => {
+    const image = getImageReference(runtime, checkovVersion);
+    if (!await imageExists(runtime, image)) {
+        logger.debug(`The image ${image} is not available locally`);
+        return null;
+    }
+    try {
+        const actualVersion = (await runImage(runtime, image, ['-v'], {}, ['--pull', 'never', '--network', 'none'])).trim();
+        logger.info(`Using the local image ${image}.`);
+        return createContainerInstallation(runtime, runtime.pinnedImage ? actualVersion : checkovVersion, actualVersion);
+    } catch (error) {
+        logger.debug(`Failed to run the local image ${image}`, { error });
+        return null;
+    }
+};
+
+const findLocalPipenvCheckov = async (logger: Logger, installationDir: string): Promise<string | null> => {
+    if (!fs.existsSync(path.join(installationDir, 'Pipfile'))) return null;
+    try {
+        const execOutput = await getPipenvPythonExecutableLocation(logger, installationDir);
+        const checkovPath = path.join(path.dirname(execOutput.trim()), 'checkov');
+        return fs.existsSync(checkovPath) ? `"${checkovPath}"` : null;
+    } catch (error) {
+        logger.debug('The pipenv venv of the extension is not available', { error });
+        return null;
+    }
+};
+
+const findLocalPipCheckov = async (logger: Logger): Promise<string | null> => {
+    if (await isPipCheckovInstalledGlobally()) return 'checkov';
+    try {
+        const checkovPath = await getPipCheckovExecutablePath(logger);
+        return fs.existsSync(checkovPath) ? checkovPath : null;
+    } catch (error) {
+        logger.debug('No checkov executable installed with pip', { error });
+        return null;
+    }
+};
+
+/**
+ * Looks for an already-present Checkov without touching the network: a local Docker image, the pipenv venv of the
+ * extension, or a checkov executable. The requested version is only enforced for the Docker image tag.
+ */
+const findLocalCheckov = async (logger: Logger, installationDir: string, checkovVersion: string): Promise<CheckovInstallation> => {
+    logger.info('Offline mode: looking for a local Checkov installation.');
+    const runtime = getContainerRuntime();
+    const dockerCheckovInstallation = await findLocalDockerCheckov(logger, runtime, checkovVersion);
+    if (dockerCheckovInstallation) return dockerCheckovInstallation;
+    const pipenvCheckovPath = await findLocalPipenvCheckov(logger, installationDir);
+    if (pipenvCheckovPath) return { checkovInstallationMethod: 'pipenv', checkovPath: pipenvCheckovPath };
+    const pipCheckovPath = await findLocalPipCheckov(logger);
+    if (pipCheckovPath) return { checkovInstallationMethod: 'pip3', checkovPath: pipCheckovPath };
+
+    throw new CheckovNotAvailableOfflineError(getImageReference(runtime, checkovVersion));
+};
+
+export const installOrUpdateCheckov = async (logger: Logger, installationDir: string, checkovVersion: string, offline = false): Promise<CheckovInstallation> => {
+    if (offline) return findLocalCheckov(logger, installationDir, checkovVersion);
+
     const dockerCheckovInstallation = await installOrUpdateCheckovWithDocker(logger, checkovVersion);
     if (dockerCheckovInstallation) return dockerCheckovInstallation;
     const pip3CheckovPath = await installOrUpdateCheckovWithPip3(logger, checkovVersion);
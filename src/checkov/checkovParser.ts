@@ -13,7 +13,9 @@ const resultParserSCA = ({ useBcIds = false }: ParserOptions) => (rawCheck: Fail
     resource: rawCheck.resource,
     guideline: rawCheck.guideline || rawCheck.short_description,
     fixedDefinition: rawCheck.fixed_definition,
-    severity: rawCheck.severity
+    severity: rawCheck.severity,
+    filePath: rawCheck.file_path,
+    fileAbsPath: rawCheck.file_abs_path
 });
 const resultParserDefault = ({ useBcIds = false }: ParserOptions) => (rawCheck: FailedCheckovCheckRaw): FailedCheckovCheck => ({
     checkId: (useBcIds && rawCheck.bc_check_id) || rawCheck.check_id,
@@ -22,7 +24,9 @@ const resultParserDefault = ({ useBcIds = false }: ParserOptions) => (rawCheck:
     resource: rawCheck.resource,
     guideline: rawCheck.guideline || rawCheck.description,
     fixedDefinition: rawCheck.fixed_definition,
-    severity: rawCheck.severity
+    severity: rawCheck.severity,
+    filePath: rawCheck.file_path,
+    fileAbsPath: rawCheck.file_abs_path
 });
 
 type ParserFunction = (rawCheck: FailedCheckovCheckRaw) => FailedCheckovCheck;
@@ -35,12 +39,12 @@ const resultParsersByType: { [parser: string]: (options: ParserOptions) => Parse
     default: resultParserDefault
 };
 
-const getFailedChecks = (checkovResponse: CheckovResponseRaw, useBcIds: boolean | undefined): FailedCheckovCheck[] => {
+const getChecks = (checkovResponse: CheckovResponseRaw, useBcIds: boolean | undefined, getRawChecks: (response: CheckovResponseRaw) => FailedCheckovCheckRaw[]): FailedCheckovCheck[] => {
     const responseByType: CheckovResponseRaw[] = Array.isArray(checkovResponse) ? checkovResponse : [checkovResponse];
 
     return responseByType.reduce((result, current) => {
         const parser: ParserFunction = (resultParsersByType[current.check_type] || resultParsersByType.default)({ useBcIds });
-        const parsedChecks: FailedCheckovCheck[] = current.results.failed_checks.map(parser);
+        const parsedChecks: FailedCheckovCheck[] = getRawChecks(current).map(rawCheck => ({ ...parser(rawCheck), checkType: current.check_type }));
         return [...result, ...parsedChecks];
     }, [] as FailedCheckovCheck[]);
 };
@@ -60,7 +64,8 @@ export const parseCheckovResponse = (rawResponse: CheckovResponseRaw | SuccessRe
 
     return {
         results: {
-            failedChecks: getFailedChecks(rawResponse as CheckovResponseRaw, useBcIds)
+            failedChecks: getChecks(rawResponse as CheckovResponseRaw, useBcIds, response => response.results.failed_checks),
+            skippedChecks: getChecks(rawResponse as CheckovResponseRaw, useBcIds, response => response.results.skipped_checks || [])
         }
     };
 };
@@ -2,55 +2,127 @@ import * as vscode from 'vscode';
 import { spawn } from 'child_process';
 import * as path from 'path';
 import { Logger } from 'winston';
-import Docker from 'dockerode';
 import { CheckovInstallation } from './checkovInstaller';
-import { convertToUnixPath, getGitRepoName, getDockerPathParams, normalizePath } from '../utils';
-import { CheckovResponse, CheckovResponseRaw } from './models';
+import { ContainerHardening, ContainerRuntime, getContainerRuntime, getHardenedRunParams, getImageReference, killContainer } from './containerRuntime';
+import { getWorkerContainer, killWorkerProcess, WORKER_RUN_ENV } from './containerPool';
+import { convertToUnixPath, getGitRepoName, getDockerPathParams, normalizePath, isDirectory, getWorkspacePath } from '../utils';
+import { CheckovResponse, CheckovResponseRaw, FailedCheckovCheck } from './models';
 import { parseCheckovResponse } from './checkovParser';
 import { configHasSkipCheck } from '../parseCheckovConfig';
 
-const docker = new Docker();
-
 const dockerMountDir = '/checkovScan';
 const configMountDir = '/checkovConfig';
 const caMountDir = '/checkovCert';
 const externalChecksMountDir = '/checkovExternalChecks';
+const baselineMountDir = '/checkovBaseline';
+
+/**
+ * Optional run settings that do not apply to every scan
+ */
+export interface CheckovRunOptions {
+    // Only report findings that are not in this `.checkov.baseline` file
+    baselinePath?: string;
+    // Write a `.checkov.baseline` for the scanned directory instead of only reporting findings
+    createBaseline?: boolean;
+    // Never reach the network: no image pulls, no downloads of Checkov itself
+    offline?: boolean;
+    // Run the container sandboxed: read-only mounts, no network, no capabilities, a non-root user and these limits
+    hardened?: ContainerHardening;
+    // Scan files of a workspace folder in a worker container that is kept running, instead of a container per scan
+    warmContainer?: boolean;
+}
 
-const getDockerFileMountParams = (mountDir: string, filePath: string | undefined): string[] => {
+const getDockerFileMountParams = (mountDir: string, filePath: string | undefined, readOnly: boolean): string[] => {
     if (!filePath) {
         return [];
     }
 
     const [baseName, absPath] = normalizePath(filePath);
 
-    return ['-v', `"${absPath}:${mountDir}/${baseName}"`];
+    return ['-v', `${absPath}:${mountDir}/${baseName}${readOnly ? ':ro' : ''}`];
 };
 
-const getPathParamsForDockerRun = (mountDir: string, filePath: string | undefined, flag: string): string[][] => {
-    const dockerParams = getDockerFileMountParams(mountDir, filePath);
-    const checkovParams = filePath ? [flag, `"${mountDir}/${path.basename(filePath)}"`] : [];
+const getPathParamsForDockerRun = (mountDir: string, filePath: string | undefined, flag: string, readOnly: boolean): string[][] => {
+    const dockerParams = getDockerFileMountParams(mountDir, filePath, readOnly);
+    const checkovParams = filePath ? [flag, `${mountDir}/${path.basename(filePath)}`] : [];
 
     return [dockerParams, checkovParams];
 };
 
-const getDockerRunParams = (logger: Logger, workspaceRoot: string | undefined, filePath: string, extensionVersion: string, configFilePath: string | undefined, checkovVersion: string, externalChecksDir: string |undefined, certPath: string | undefined, debugLogs: boolean | undefined, uniqueName: string) => {
-    const image = `bridgecrew/checkov:${checkovVersion}`;
+/**
+ * The path Checkov is given for a file in the container: relative to the workspace mount, or the file name when its directory is mounted
+ */
+const getDockerScanTarget = (workspaceRoot: string | undefined, filePath: string, isDirectoryScan: boolean): string => {
     const pathParams = getDockerPathParams(workspaceRoot, filePath);
+    return pathParams[0] ? pathParams[1] : (isDirectoryScan ? '.' : path.basename(filePath));
+};
+
+const getDockerRunParams = (logger: Logger, workspaceRoot: string | undefined, filePaths: string[], extensionVersion: string, configFilePath: string | undefined, image: string, externalChecksDir: string |undefined, certPath: string | undefined, debugLogs: boolean | undefined, uniqueName: string, isDirectoryScan: boolean, runOptions: CheckovRunOptions, hardeningParams: string[]) => {
+    const pathParams = getDockerPathParams(workspaceRoot, filePaths[0]);
     // if filepath is within the workspace, then the mount root will be the workspace path, and the file path will be the relative file path from there.
     // otherwise, we will mount into the file's directory, and the file path is just the filename.
-    const mountRoot = pathParams[0] || path.dirname(pathParams[1]);
-    const filePathToScan = convertToUnixPath(pathParams[0] ? pathParams[1] : path.basename(filePath));
+    // a directory outside of the workspace (or the workspace itself) is mounted as-is and scanned from the mount root.
+    // files scanned together share the mount root, so they are either all in the workspace or all in the same directory.
+    const mountRoot = pathParams[0] || (isDirectoryScan ? pathParams[1] : path.dirname(pathParams[1]));
+    const scanTargetParams = filePaths.flatMap(filePath => [isDirectoryScan ? '-d' : '-f', convertToUnixPath(getDockerScanTarget(workspaceRoot, filePath, isDirectoryScan))]);
+    const debugLogParams = debugLogs ? ['--env', 'LOG_LEVEL=DEBUG'] : [];
+    const pullParams = runOptions.offline ? ['--pull', 'never'] : [];
+    const readOnly = !!runOptions.hardened;
+    // creating a baseline writes `.checkov.baseline` into the scanned directory
+    const readOnlyRoot = readOnly && !runOptions.createBaseline;
+    if (readOnly && !readOnlyRoot) {
+        logger.warn('Mounting the scanned directory writable in hardened mode, to create the baseline');
+    }
+
+    const [caCertDockerParams, caCertCheckovParams] = getPathParamsForDockerRun(caMountDir, certPath, '--ca-certificate', readOnly);
+    const [configFileDockerParams, configFileCheckovParams] = getPathParamsForDockerRun(configMountDir, configFilePath, '--config-file', readOnly);
+    const [externalChecksDockerParams, externalChecksCheckovParams] = getPathParamsForDockerRun(externalChecksMountDir, externalChecksDir, '--external-checks-dir', readOnly);
+    const [baselineDockerParams, baselineCheckovParams] = getPathParamsForDockerRun(baselineMountDir, runOptions.baselinePath, '--baseline', readOnly);
+
+    const dockerParams = ['run', '--rm', '--interactive', '--name', uniqueName, ...pullParams, ...hardeningParams, ...debugLogParams, '--env', 'BC_SOURCE=vscode', '--env', `BC_SOURCE_VERSION=${extensionVersion}`,
+        '-v', `${mountRoot}:${dockerMountDir}${readOnlyRoot ? ':ro' : ''}`, ...caCertDockerParams, ...configFileDockerParams, ...externalChecksDockerParams, ...baselineDockerParams, '-w', dockerMountDir];
+
+    return [...dockerParams, image, ...configFileCheckovParams, ...caCertCheckovParams, ...externalChecksCheckovParams, ...baselineCheckovParams, ...scanTargetParams];
+};
+
+/**
+ * Paths inside the workspace are reached through the workspace mount; for others the directory is mounted,
+ * so the worker keeps its mounts when the scanned file, and with it the config file, changes
+ */
+const getWorkerPathParams = (workspaceRoot: string, mountDir: string, filePath: string | undefined, flag: string, readOnly: boolean): string[][] => {
+    if (!filePath) {
+        return [[], []];
+    }
+
+    const [inWorkspace, relativePath] = getDockerPathParams(workspaceRoot, filePath);
+    if (inWorkspace) {
+        return [[], [flag, `${dockerMountDir}/${relativePath.replace(/\\/g, '/')}`]];
+    }
+
+    const [baseName, absPath] = normalizePath(filePath);
+    return [['-v', `${path.dirname(absPath)}:${mountDir}${readOnly ? ':ro' : ''}`], [flag, `${mountDir}/${baseName}`]];
+};
+
+/**
+ * Like `getDockerRunParams`, but `exec`s Checkov in the worker container of the workspace root, starting the worker if needed
+ */
+const getDockerExecParams = async (logger: Logger, runtime: ContainerRuntime, workspaceRoot: string, filePaths: string[], extensionVersion: string, configFilePath: string | undefined, image: string, externalChecksDir: string | undefined, certPath: string | undefined, debugLogs: boolean | undefined, uniqueName: string, isDirectoryScan: boolean, runOptions: CheckovRunOptions, hardeningParams: string[]): Promise<[string, string[]]> => {
+    const scanTargetParams = filePaths.flatMap(filePath => [isDirectoryScan ? '-d' : '-f', convertToUnixPath(path.relative(workspaceRoot, filePath))]);
     const debugLogParams = debugLogs ? ['--env', 'LOG_LEVEL=DEBUG'] : [];
-    const nameParam = `--name ${uniqueName}`;
+    const pullParams = runOptions.offline ? ['--pull', 'never'] : [];
+    const readOnly = !!runOptions.hardened;
 
-    const [caCertDockerParams, caCertCheckovParams] = getPathParamsForDockerRun(caMountDir, certPath, '--ca-certificate');
-    const [configFileDockerParams, configFileCheckovParams] = getPathParamsForDockerRun(configMountDir, configFilePath, '--config-file');
-    const [externalChecksDockerParams, externalChecksCheckovParams] = getPathParamsForDockerRun(externalChecksMountDir, externalChecksDir, '--external-checks-dir');
+    const [caCertDockerParams, caCertCheckovParams] = getWorkerPathParams(workspaceRoot, caMountDir, certPath, '--ca-certificate', readOnly);
+    const [configFileDockerParams, configFileCheckovParams] = getWorkerPathParams(workspaceRoot, configMountDir, configFilePath, '--config-file', readOnly);
+    const [externalChecksDockerParams, externalChecksCheckovParams] = getWorkerPathParams(workspaceRoot, externalChecksMountDir, externalChecksDir, '--external-checks-dir', readOnly);
+    const [baselineDockerParams, baselineCheckovParams] = getWorkerPathParams(workspaceRoot, baselineMountDir, runOptions.baselinePath, '--baseline', readOnly);
 
-    const dockerParams = ['run', '--rm', '--interactive', nameParam, ...debugLogParams, '--env', 'BC_SOURCE=vscode', '--env', `BC_SOURCE_VERSION=${extensionVersion}`,
-        '-v', `"${mountRoot}:${dockerMountDir}"`, ...caCertDockerParams, ...configFileDockerParams, ...externalChecksDockerParams, '-w', dockerMountDir];
+    const workerRunParams = [...pullParams, ...hardeningParams, '--env', 'BC_SOURCE=vscode', '--env', `BC_SOURCE_VERSION=${extensionVersion}`,
+        '-v', `${workspaceRoot}:${dockerMountDir}${readOnly ? ':ro' : ''}`, ...caCertDockerParams, ...configFileDockerParams, ...externalChecksDockerParams, ...baselineDockerParams];
+    const workerName = await getWorkerContainer(logger, runtime, workspaceRoot, image, workerRunParams);
 
-    return [...dockerParams, image, ...configFileCheckovParams, ...caCertCheckovParams, ...externalChecksCheckovParams, '-f', filePathToScan];
+    const execParams = ['exec', '--interactive', '--env', `${WORKER_RUN_ENV}=${uniqueName}`, ...debugLogParams, '-w', dockerMountDir, workerName, 'checkov'];
+    return [workerName, [...execParams, ...configFileCheckovParams, ...caCertCheckovParams, ...externalChecksCheckovParams, ...baselineCheckovParams, ...scanTargetParams]];
 };
 
 const getpipRunParams = (configFilePath: string | undefined) => {
@@ -59,21 +131,37 @@ const getpipRunParams = (configFilePath: string | undefined) => {
 
 const cleanupStdout = (stdout: string) => stdout.replace(/.\[0m/g,''); // Clean docker run ANSI escape chars
 
-export const runCheckovScan = (logger: Logger, checkovInstallation: CheckovInstallation, extensionVersion: string, fileName: string,
+/**
+ * Runs Checkov on a file or directory, or on several files at once with a `-f` per file.
+ * Files scanned together must share their workspace folder (or directory, outside of the workspace), config file and baseline.
+ */
+export const runCheckovScan = (logger: Logger, checkovInstallation: CheckovInstallation, extensionVersion: string, scanTargets: string | string[],
     certPath: string | undefined, useBcIds: boolean | undefined, debugLogs: boolean | undefined, noCertVerify: boolean | undefined, cancelToken: vscode.CancellationToken,
-    configPath: string | undefined, externalChecksDir: string | undefined, skipFrameworks: string[] | undefined, frameworks: string[] | undefined, skipChecks: string[] | undefined): Promise<CheckovResponse> => {
+    configPath: string | undefined, externalChecksDir: string | undefined, skipFrameworks: string[] | undefined, frameworks: string[] | undefined, skipChecks: string[] | undefined, runOptions: CheckovRunOptions = {}): Promise<CheckovResponse> => {
     return new Promise((resolve, reject) => {
         const { checkovInstallationMethod, checkovPath } = checkovInstallation;
         const timestamp = Date.now();
         const uniqueRunName = `vscode-checkov-${timestamp}`;
 
-        // Get the version once and ensure it has a value
-        const version = checkovInstallation.version || 'latest';
+        // Installations from before the runtime settings existed only know their version
+        const containerRuntime = checkovInstallation.containerRuntime || getContainerRuntime();
+        const image = checkovInstallation.image || getImageReference(containerRuntime, checkovInstallation.version || 'latest');
+
+        const fileNames = Array.isArray(scanTargets) ? scanTargets : [scanTargets];
+        const [fileName] = fileNames;
+        // A directory is scanned as a whole (`-d`), anything else as a single file (`-f`)
+        const isDirectoryScan = fileNames.length === 1 && isDirectory(fileName);
+        // In multi-root workspaces the cwd and Docker mount root come from the folder that owns the scanned file
+        const workspaceRoot = getWorkspacePath(logger, fileName) || undefined;
 
-        // Pass the resolved version to getDockerRunParams
-        const dockerRunParams = checkovInstallationMethod === 'docker' ? getDockerRunParams(logger, vscode.workspace.rootPath, fileName, extensionVersion, configPath, version, externalChecksDir, certPath, debugLogs, uniqueRunName) : [];
+        // Creating a baseline needs a writable mount, so it always gets a container of its own
+        const useWorker = checkovInstallationMethod === 'docker' && !!runOptions.warmContainer && !runOptions.createBaseline
+            && !!workspaceRoot && fileNames.every(filePath => getDockerPathParams(workspaceRoot, filePath)[0]);
+        const hardeningParams = checkovInstallationMethod === 'docker' && runOptions.hardened
+            ? getHardenedRunParams(logger, containerRuntime, runOptions.hardened)
+            : Promise.resolve([]);
         const pipRunParams =  ['pipenv', 'pip3'].includes(checkovInstallationMethod) ? getpipRunParams(configPath) : [];
-        const filePathParams = checkovInstallationMethod === 'docker' ? [] : ['-f', `"${fileName}"`];
+        const filePathParams = checkovInstallationMethod === 'docker' ? [] : fileNames.flatMap(filePath => [isDirectoryScan ? '-d' : '-f', `"${filePath}"`]);
         const certificateParams: string[] = certPath && checkovInstallationMethod !== 'docker' ? ['-ca', `"${certPath}"`] : [];
         const bcIdParam: string[] = useBcIds ? ['--output-bc-ids'] : [];
         const noCertVerifyParam: string[] = noCertVerify ? ['--no-cert-verify'] : [];
@@ -82,7 +170,7 @@ export const runCheckovScan = (logger: Logger, checkovInstallation: CheckovInsta
         // 1. If config file has skip-check, let it handle skip logic entirely
         // 2. If no config file skip-check, use VS Code setting (defaults to BC_LIC*)
         // 3. This allows config files to override VS Code settings completely
-        if (configHasSkipCheck(logger)) {
+        if (configHasSkipCheck(logger, configPath)) {
             // Config file has skip-check defined, don't pass --skip-check parameter
             // Let the config file handle skip logic entirely
             skipCheckParam = [];
@@ -91,21 +179,39 @@ export const runCheckovScan = (logger: Logger, checkovInstallation: CheckovInsta
             skipCheckParam = ['--skip-check', skipChecks.join(',')];
         }
         const externalChecksParams: string[] = externalChecksDir && checkovInstallationMethod !== 'docker' ? ['--external-checks-dir', externalChecksDir] : [];
-        const frameworkParams: string[] = frameworks ? ['--framework', frameworks.join(' ')] : [];
-        const skipFrameworkParams: string[] = skipFrameworks ? ['--skip-framework', skipFrameworks.join(' ')] : [];
-        const workingDir = vscode.workspace.rootPath;
-        getGitRepoName(logger, vscode.window.activeTextEditor?.document.fileName).then((repoName) => {
+        const frameworkParams: string[] = frameworks ? ['--framework', ...frameworks] : [];
+        const skipFrameworkParams: string[] = skipFrameworks ? ['--skip-framework', ...skipFrameworks] : [];
+        const baselineParams: string[] = runOptions.baselinePath && checkovInstallationMethod !== 'docker' ? ['--baseline', `"${runOptions.baselinePath}"`] : [];
+        const createBaselineParams: string[] = runOptions.createBaseline ? ['--create-baseline'] : [];
+        // a hardened container has no network, so Checkov must not try to download anything either
+        const skipDownloadParams: string[] = runOptions.offline || (runOptions.hardened && checkovInstallationMethod === 'docker') ? ['--skip-download'] : [];
+        const workingDir = workspaceRoot;
+        const getContainerParams = async (containerHardeningParams: string[]): Promise<[string | undefined, string[]]> => {
+            if (checkovInstallationMethod !== 'docker') return [undefined, []];
+            if (useWorker && workspaceRoot) {
+                try {
+                    return await getDockerExecParams(logger, containerRuntime, workspaceRoot, fileNames, extensionVersion, configPath, image, externalChecksDir, certPath, debugLogs, uniqueRunName, isDirectoryScan, runOptions, containerHardeningParams);
+                } catch (error) {
+                    logger.warn('Failed to start the Checkov worker container, running the scan in a container of its own', { error });
+                }
+            }
+            return [undefined, getDockerRunParams(logger, workspaceRoot, fileNames, extensionVersion, configPath, image, externalChecksDir, certPath, debugLogs, uniqueRunName, isDirectoryScan, runOptions, containerHardeningParams)];
+        };
+        Promise.all([getGitRepoName(logger, fileName), hardeningParams.then(getContainerParams)]).then(([repoName, [workerName, dockerRunParams]]) => {
             const repoIdParams = repoName ? ['--repo-id', repoName] : ['--repo-id', 'vscode/default'];
             const checkovArguments: string[] = [...dockerRunParams, ...certificateParams, ...bcIdParam, ...noCertVerifyParam, '-s',
-                ...repoIdParams, ...filePathParams, '-o', 'json', ...pipRunParams, ...externalChecksParams, ...frameworkParams, ...skipFrameworkParams, ...skipCheckParam];
+                ...repoIdParams, ...filePathParams, '-o', 'json', ...pipRunParams, ...externalChecksParams, ...frameworkParams, ...skipFrameworkParams, ...skipCheckParam, ...baselineParams, ...createBaselineParams, ...skipDownloadParams];
             logger.info('Running checkov:');
             logger.info(`${checkovPath} ${checkovArguments.join(' ')}`);
 
             const debugLogEnv = debugLogs ? { LOG_LEVEL: 'DEBUG' } : {};
+            const runtimeEnv = checkovInstallationMethod === 'docker' ? containerRuntime.env : {};
+            // the container runtime gets its arguments as they are; the paths of pip and pipenv installations are quoted for a shell,
+            // which also runs their checkov when it is a script
             const ckv = spawn(checkovPath, checkovArguments,
                 {
-                    shell: true,
-                    env: { ...process.env, BC_SOURCE: 'vscode', BC_SOURCE_VERSION: extensionVersion, ...debugLogEnv },
+                    shell: checkovInstallationMethod !== 'docker',
+                    env: { ...process.env, BC_SOURCE: 'vscode', BC_SOURCE_VERSION: extensionVersion, ...debugLogEnv, ...runtimeEnv },
                     ...(workingDir ? { cwd: workingDir } : {})
                 });
 
@@ -160,19 +266,57 @@ export const runCheckovScan = (logger: Logger, checkovInstallation: CheckovInsta
 
             cancelToken.onCancellationRequested(async (cancelEvent) => {
                 logger.info('Cancellation token invoked, aborting checkov run.', { cancelEvent });
-                if (checkovInstallationMethod === 'docker') {
-                    const container = docker.getContainer(uniqueRunName);
-                    await container.kill().catch(err => {
-                        if (err.reason === 'no such container') {
-                            logger.info(`not deleting container ${uniqueRunName} as it was already removed`);
-                        } else {
-                            logger.warn(`failed to delete container ${uniqueRunName}: ${err}`);
-                        }
-                    });
+                if (workerName) {
+                    // the worker stays up for the next scan
+                    await killWorkerProcess(logger, containerRuntime, workerName, uniqueRunName);
+                } else if (checkovInstallationMethod === 'docker') {
+                    await killContainer(logger, containerRuntime, uniqueRunName);
                 } else {
                     ckv.kill('SIGABRT');
                 }
             });
+        }).catch(error => {
+            // e.g. a missing container runtime; the scan must not be left pending
+            logger.error('Failed to start Checkov', { error });
+            reject(error);
         });
     });
 };
+
+// Checkov reports paths as it was given them, with a leading `/` for relative ones, or as they are in the container
+const toReportedPath = (filePath: string): string =>
+    filePath.replace(/\\/g, '/').replace(new RegExp(`^${dockerMountDir}/`), '').replace(/^\.?\//, '');
+
+/**
+ * Splits the response of a scan of several files into one per file, by the path Checkov reports for each check.
+ * A file is known by its absolute path, its path in the workspace folder or, outside of the workspace, its name.
+ */
+export const splitCheckovResponse = (logger: Logger, response: CheckovResponse, fileNames: string[]): Map<string, CheckovResponse> => {
+    const reportedPaths = new Map<string, string>();
+    for (const fileName of fileNames) {
+        const workspaceRoot = getWorkspacePath(logger, fileName) || undefined;
+        const [inWorkspace, relativePath] = getDockerPathParams(workspaceRoot, fileName);
+        for (const reportedPath of [fileName, inWorkspace ? relativePath : path.basename(fileName)]) {
+            reportedPaths.set(toReportedPath(reportedPath), fileName);
+        }
+    }
+
+    const getFileName = (check: FailedCheckovCheck): string | undefined =>
+        [check.filePath, check.fileAbsPath].map(checkPath => checkPath && reportedPaths.get(toReportedPath(checkPath))).find(Boolean);
+
+    const responses = new Map<string, CheckovResponse>(fileNames.map(fileName => [fileName, { results: { failedChecks: [], skippedChecks: [] } }]));
+    const route = (checks: FailedCheckovCheck[], getChecks: (results: CheckovResponse['results']) => FailedCheckovCheck[]) => {
+        for (const check of checks) {
+            const fileName = getFileName(check);
+            if (fileName) {
+                getChecks((responses.get(fileName) as CheckovResponse).results).push(check);
+            } else {
+                logger.debug(`Dropping ${check.checkId} of ${check.filePath}, which is none of the scanned files`);
+            }
+        }
+    };
+    route(response.results.failedChecks, results => results.failedChecks);
+    route(response.results.skippedChecks || [], results => results.skippedChecks as FailedCheckovCheck[]);
+
+    return responses;
+};
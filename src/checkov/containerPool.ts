@@ -0,0 +1,106 @@
+import * as crypto from 'crypto';
+import { Logger } from 'winston';
+import { ContainerRuntime, execRuntime, killContainer } from './containerRuntime';
+
+// set on every `exec`, so the process of a scan can be found again to cancel it
+export const WORKER_RUN_ENV = 'CHECKOV_VSCODE_RUN';
+
+/**
+ * A long-running container per workspace root that scans are `exec`'d into, which saves starting a container per scan
+ */
+interface WorkerContainer {
+    name: string;
+    runtime: ContainerRuntime;
+    // the image and `run` arguments it was started with; the worker is restarted when these change
+    key: string;
+    started: Promise<void>;
+}
+
+const workers: Map<string, WorkerContainer> = new Map();
+
+const getWorkerName = (workspaceRoot: string): string =>
+    `vscode-checkov-worker-${crypto.createHash('sha1').update(workspaceRoot).digest('hex').substring(0, 12)}`;
+
+const isRunning = async (runtime: ContainerRuntime, name: string): Promise<boolean> => {
+    try {
+        const [stdout] = await execRuntime(runtime, ['inspect', '--format', '{{.State.Running}}', name]);
+        return stdout.trim() === 'true';
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    } catch (error) {
+        return false;
+    }
+};
+
+const startWorker = async (logger: Logger, runtime: ContainerRuntime, name: string, image: string, runArgs: string[]): Promise<void> => {
+    // a worker left behind by an earlier session, or one being replaced, holds the name
+    await execRuntime(runtime, ['rm', '--force', name]).catch(() => undefined);
+    logger.info(`Starting Checkov worker container ${name} from ${image}`);
+    await execRuntime(runtime, ['run', '--detach', '--rm', '--name', name, ...runArgs, '--entrypoint', 'sleep', image, 'infinity']);
+};
+
+/**
+ * The name of a running worker for the workspace root, started from the image with the given `run` arguments (mounts, hardening, environment).
+ * A worker that stopped, or that was started from another image or with other arguments, is replaced.
+ */
+export const getWorkerContainer = async (logger: Logger, runtime: ContainerRuntime, workspaceRoot: string, image: string, runArgs: string[]): Promise<string> => {
+    const key = JSON.stringify([runtime.executable, runtime.env, image, runArgs]);
+    const worker = workers.get(workspaceRoot);
+    if (worker && worker.key === key) {
+        await worker.started;
+        if (await isRunning(runtime, worker.name)) {
+            return worker.name;
+        }
+        // a concurrent scan that found it stopped as well restarts it already, which must not be undone by restarting it again
+        if (workers.get(workspaceRoot) !== worker) {
+            return getWorkerContainer(logger, runtime, workspaceRoot, image, runArgs);
+        }
+        logger.warn(`Checkov worker container ${worker.name} is not running anymore, restarting it`);
+    } else if (worker) {
+        logger.info(`The Checkov image or mounts of ${workspaceRoot} changed, restarting worker container ${worker.name}`);
+    }
+
+    const name = getWorkerName(workspaceRoot);
+    const started = startWorker(logger, runtime, name, image, runArgs);
+    workers.set(workspaceRoot, { name, runtime, key, started });
+    try {
+        await started;
+    } catch (error) {
+        workers.delete(workspaceRoot);
+        throw error;
+    }
+    return name;
+};
+
+// The Checkov image has no `pkill`, so its Python finds the process by its environment; processes it may not read are skipped
+const KILL_RUN_SCRIPT = [
+    'import glob, os, signal, sys',
+    'for environ in glob.glob(\'/proc/[0-9]*/environ\'):',
+    '    try:',
+    '        if sys.argv[1].encode() in open(environ, \'rb\').read().split(bytes(1)):',
+    '            os.kill(int(environ.split(\'/\')[2]), signal.SIGKILL)',
+    '    except OSError:',
+    '        pass'
+].join('\n');
+
+/**
+ * The runtime arguments that kill the processes `exec`'d in the worker with this run ID
+ */
+export const getKillWorkerProcessArgs = (name: string, runId: string): string[] =>
+    ['exec', name, 'python3', '-c', KILL_RUN_SCRIPT, `${WORKER_RUN_ENV}=${runId}`];
+
+/**
+ * Kills the scan that was `exec`'d with this run ID, leaving the worker running
+ */
+export const killWorkerProcess = async (logger: Logger, runtime: ContainerRuntime, name: string, runId: string): Promise<void> => {
+    try {
+        await execRuntime(runtime, getKillWorkerProcessArgs(name, runId));
+    } catch (error) {
+        logger.warn(`failed to kill Checkov run ${runId} in worker container ${name}: ${error}`);
+    }
+};
+
+export const stopWorkerContainers = async (logger: Logger): Promise<void> => {
+    const stopping = [...workers.values()];
+    workers.clear();
+    await Promise.all(stopping.map(worker => killContainer(logger, worker.runtime, worker.name)));
+};
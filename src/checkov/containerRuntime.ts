@@ -0,0 +1,146 @@
+import * as path from 'path';
+import { ExecFileOptions } from 'child_process';
+import { Logger } from 'winston';
+import { asyncExecFile } from '../utils';
+import { getContainerImage, getContainerRuntimeExecutable, getContainerSocket } from '../configuration';
+
+const DEFAULT_IMAGE_REPOSITORY = 'bridgecrew/checkov';
+
+/**
+ * The container CLI that runs Checkov (Docker, Podman, nerdctl, ...) and the image it runs
+ */
+export interface ContainerRuntime {
+    executable: string;
+    // environment that points the CLI at a non-default socket
+    env: NodeJS.ProcessEnv;
+    repository: string;
+    // set when the image setting already names a tag or digest, which then wins over the Checkov version
+    pinnedImage?: string;
+}
+
+// `registry:5000/team/checkov` has no tag, `team/checkov:3.2.0` and `team/checkov@sha256:...` do
+const hasTagOrDigest = (image: string): boolean => image.includes('@') || path.posix.basename(image).includes(':');
+
+const toSocketAddress = (socket: string): string => /^[a-z]+:\/\//.test(socket) ? socket : `unix://${socket}`;
+
+/**
+ * Each CLI reads its socket from its own variable; the Podman and nerdctl names are matched on the executable name
+ */
+const getSocketEnv = (executable: string, socket: string | undefined): NodeJS.ProcessEnv => {
+    if (!socket) return {};
+    const name = path.basename(executable).replace(/\.exe$/, '');
+    if (name === 'podman') return { CONTAINER_HOST: toSocketAddress(socket) };
+    if (name === 'nerdctl') return { CONTAINERD_ADDRESS: socket.replace(/^unix:\/\//, '') };
+    return { DOCKER_HOST: toSocketAddress(socket) };
+};
+
+export const getContainerRuntime = (executable = getContainerRuntimeExecutable(), image = getContainerImage() || DEFAULT_IMAGE_REPOSITORY, socket = getContainerSocket()): ContainerRuntime => {
+    return {
+        executable,
+        env: getSocketEnv(executable, socket),
+        repository: hasTagOrDigest(image) ? image.replace(/(@.*|:[^:/]*)$/, '') : image,
+        pinnedImage: hasTagOrDigest(image) ? image : undefined
+    };
+};
+
+/**
+ * The image to run for a Checkov version, unless the image setting pins one
+ */
+export const getImageReference = (runtime: ContainerRuntime, tag: string): string => runtime.pinnedImage || `${runtime.repository}:${tag}`;
+
+/**
+ * Runs the container CLI without a shell, so paths and image references from the settings are passed as they are
+ */
+export const execRuntime = (runtime: ContainerRuntime, args: string[], options: ExecFileOptions = {}) =>
+    asyncExecFile(runtime.executable, args, { ...options, env: { ...process.env, ...runtime.env } });
+
+export const pullImage = async (logger: Logger, runtime: ContainerRuntime, image: string): Promise<void> => {
+    logger.debug(`Pulling ${image} with ${runtime.executable}`);
+    await execRuntime(runtime, ['pull', image]);
+};
+
+export const imageExists = async (runtime: ContainerRuntime, image: string): Promise<boolean> => {
+    try {
+        await execRuntime(runtime, ['image', 'inspect', image]);
+        return true;
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    } catch (error) {
+        return false;
+    }
+};
+
+/**
+ * Runs Checkov in a throwaway container, for commands that need no mounts such as `-v` or `--list`
+ */
+export const runImage = async (runtime: ContainerRuntime, image: string, checkovArgs: string[], options: ExecFileOptions = {}, runArgs: string[] = []): Promise<string> => {
+    const [stdout] = await execRuntime(runtime, ['run', '--rm', '--interactive', ...runArgs, image, ...checkovArgs], options);
+    return stdout;
+};
+
+/**
+ * Resource limits of a hardened container, in the runtime's own notation (e.g. `2g`, `1.5`)
+ */
+export interface ContainerHardening {
+    memoryLimit?: string;
+    cpuLimit?: string;
+}
+
+// `nobody`, which exists in the Checkov image; Checkov writes its caches to $HOME, so that is pointed at /tmp
+const NON_ROOT_USER = '65534:65534';
+
+const supportedRunFlags: Map<string, Promise<Set<string> | undefined>> = new Map();
+
+/**
+ * The flags `run` accepts, read once per runtime from its help text
+ */
+const getSupportedRunFlags = (logger: Logger, runtime: ContainerRuntime): Promise<Set<string> | undefined> => {
+    const key = `${runtime.executable} ${JSON.stringify(runtime.env)}`;
+    if (!supportedRunFlags.has(key)) {
+        supportedRunFlags.set(key, execRuntime(runtime, ['run', '--help'])
+            .then(([stdout, stderr]) => new Set(`${stdout}\n${stderr}`.match(/--[a-z][a-z-]*/g)))
+            .catch(error => {
+                logger.warn(`Failed to read the run flags of ${runtime.executable}`, { error });
+                return undefined;
+            }));
+    }
+    return supportedRunFlags.get(key) as Promise<Set<string> | undefined>;
+};
+
+/**
+ * The `run` flags that sandbox the scan. Flags the runtime does not support are left out with a warning,
+ * so scans keep working the way they do without hardening.
+ */
+export const getHardenedRunParams = async (logger: Logger, runtime: ContainerRuntime, hardening: ContainerHardening): Promise<string[]> => {
+    const hardeningFlags: [string, string[]][] = [
+        ['--network', ['--network', 'none']],
+        ['--cap-drop', ['--cap-drop', 'ALL']],
+        ['--security-opt', ['--security-opt', 'no-new-privileges']],
+        ['--user', ['--user', NON_ROOT_USER, '--env', 'HOME=/tmp']],
+        ...(hardening.memoryLimit ? [['--memory', ['--memory', hardening.memoryLimit]] as [string, string[]]] : []),
+        ...(hardening.cpuLimit ? [['--cpus', ['--cpus', hardening.cpuLimit]] as [string, string[]]] : [])
+    ];
+
+    const supported = await getSupportedRunFlags(logger, runtime);
+    if (!supported) {
+        logger.warn(`Running Checkov without hardening, as the flags ${runtime.executable} supports are unknown`);
+        return [];
+    }
+    return hardeningFlags.flatMap(([flag, params]) => {
+        if (supported.has(flag)) return params;
+        logger.warn(`${runtime.executable} does not support ${flag}, running Checkov without it`);
+        return [];
+    });
+};
+
+export const killContainer = async (logger: Logger, runtime: ContainerRuntime, name: string): Promise<void> => {
+    try {
+        await execRuntime(runtime, ['kill', name]);
+    } catch (error) {
+        // the container removes itself once Checkov exits, which may just have happened
+        if (/no such container|not found/i.test(String(error))) {
+            logger.info(`not killing container ${name} as it was already removed`);
+        } else {
+            logger.warn(`failed to kill container ${name}: ${error}`);
+        }
+    }
+};
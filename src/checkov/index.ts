@@ -1,3 +1,5 @@
-export { FailedCheckovCheck } from './models';
-export { runCheckovScan } from './checkovRunner';
-export { CheckovInstallation, installOrUpdateCheckov } from './checkovInstaller';
+export { CheckovResponse, FailedCheckovCheck, RiskAcceptance } from './models';
+export { runCheckovScan, splitCheckovResponse, CheckovRunOptions } from './checkovRunner';
+export { CheckovInstallation, CheckovNotAvailableOfflineError, installOrUpdateCheckov } from './checkovInstaller';
+export { CatalogCheck, listCheckovChecks } from './checkovCatalog';
+export { stopWorkerContainers } from './containerPool';
@@ -1,5 +1,12 @@
 import { FileScanCacheEntry } from '../utils';
 
+export interface RiskAcceptance {
+    owner: string;
+    // YYYY-MM-DD
+    expires: string;
+    reason?: string;
+}
+
 export interface FailedCheckovCheck {
     checkId: string;
     checkName: string;
@@ -8,11 +15,19 @@ export interface FailedCheckovCheck {
     guideline?: string;
     fixedDefinition?: string;
     severity?: string;
+    checkType?: string;
+    filePath?: string;
+    fileAbsPath?: string;
+    baselined?: boolean;
+    acceptance?: RiskAcceptance;
+    stale?: boolean;
 }
 
 export interface CheckovResponse {
     results: {
         failedChecks: FailedCheckovCheck[];
+        // checks suppressed in the scanned files, e.g. by `checkov:skip` comments
+        skippedChecks?: FailedCheckovCheck[];
     };
 }
 
@@ -28,12 +43,15 @@ export interface FailedCheckovCheckRaw {
     severity?: string;
     code_block?: string[];
     short_description?: string;
+    file_path?: string;
+    file_abs_path?: string;
 }
 
 export interface CheckovResponseRaw {
     check_type: string;
     results: {
         failed_checks: FailedCheckovCheckRaw[];
+        skipped_checks?: FailedCheckovCheckRaw[];
     };
 }
 
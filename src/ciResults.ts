@@ -0,0 +1,44 @@
+import * as vscode from 'vscode';
+import { readFileSync } from 'fs';
+import { Logger } from 'winston';
+import { FailedCheckovCheck } from './checkov';
+import { parseCheckovResponse } from './checkov/checkovParser';
+import { getFailedChecksFromSarif, SarifLog } from './sarif';
+import { getFailedChecksByFile } from './utils';
+
+const isSarifLog = (content: unknown): content is SarifLog =>
+    typeof content === 'object' && content !== null && !Array.isArray(content) && 'runs' in content && 'version' in content;
+
+/**
+ * Reads a Checkov result artifact published by CI: either `results_sarif.sarif` or the `-o json` output (`results_json.json`)
+ */
+export const loadCiResults = (logger: Logger, resultsFilePath: string, useBcIds: boolean | undefined): FailedCheckovCheck[] => {
+    const content = JSON.parse(readFileSync(resultsFilePath, 'utf8'));
+    if (isSarifLog(content)) {
+        logger.debug(`Reading ${resultsFilePath} as SARIF`);
+        return getFailedChecksFromSarif(content);
+    }
+    logger.debug(`Reading ${resultsFilePath} as Checkov JSON output`);
+    return parseCheckovResponse(content, useBcIds).results.failedChecks;
+};
+
+/**
+ * CI paths are relative to the repository root, so each result is matched against the workspace folders in order
+ */
+export const getCiChecksByFile = (logger: Logger, failedChecks: FailedCheckovCheck[]): Map<string, FailedCheckovCheck[]> => {
+    const checksByFile = new Map<string, FailedCheckovCheck[]>();
+    let unresolvedChecks = failedChecks;
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+        const folderChecksByFile = getFailedChecksByFile(folder.uri.fsPath, unresolvedChecks, logger);
+        const resolvedChecks = new Set<FailedCheckovCheck>();
+        for (const [filePath, fileChecks] of folderChecksByFile) {
+            checksByFile.set(filePath, [...(checksByFile.get(filePath) || []), ...fileChecks]);
+            fileChecks.forEach(check => resolvedChecks.add(check));
+        }
+        unresolvedChecks = unresolvedChecks.filter(check => !resolvedChecks.has(check));
+    }
+    if (unresolvedChecks.length > 0) {
+        logger.info(`${unresolvedChecks.length} CI results did not match any file in the workspace`);
+    }
+    return checksByFile;
+};
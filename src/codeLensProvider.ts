@@ -0,0 +1,122 @@
+import * as vscode from 'vscode';
+import { FailedCheckovCheck } from './checkov';
+import { FIX_RESOURCE_COMMAND, REMOVE_DIAGNOSTICS_COMMAND, SHOW_RESOURCE_ACTIONS_COMMAND, SUPPRESS_RESOURCE_COMMAND } from './commands';
+import { DIAGNOSTIC_SOURCE } from './diagnostics';
+import { CHECKOV_MAP } from './extension';
+import { shouldShowCodeLens } from './configuration';
+import { createCombinedFixEdit, createCommandCodeAction } from './suggestFix';
+import { canSuppressCheck, createSuppressionEdit } from './suppressions';
+import { createDiagnosticKey, getSeverityForCheckId } from './utils';
+
+const severityOrder = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW', 'INFO'];
+
+interface ResourceFinding {
+    check: FailedCheckovCheck;
+    diagnostic: vscode.Diagnostic;
+}
+
+/**
+ * Returns the findings of the document that are currently shown as diagnostics, grouped by resource.
+ * Going through the diagnostics keeps the lenses in line with what is shown, e.g. once a fix cleared them.
+ */
+const getFindingsByResource = (workspaceState: vscode.Memento, document: vscode.TextDocument): Map<string, ResourceFinding[]> => {
+    const findingsByResource = new Map<string, ResourceFinding[]>();
+    // the check map only holds the results of the active document
+    if (vscode.window.activeTextEditor?.document.uri.toString() !== document.uri.toString()) return findingsByResource;
+
+    const checkovMap = workspaceState.get<Record<string, FailedCheckovCheck>>(CHECKOV_MAP) || {};
+    for (const diagnostic of vscode.languages.getDiagnostics(document.uri)) {
+        if (diagnostic.source !== DIAGNOSTIC_SOURCE) continue;
+        const check = checkovMap[createDiagnosticKey(diagnostic)];
+        if (!check || check.baselined) continue;
+        findingsByResource.set(check.resource, [...(findingsByResource.get(check.resource) || []), { check, diagnostic }]);
+    }
+    return findingsByResource;
+};
+
+const getSeveritySummary = (checks: FailedCheckovCheck[]): string => {
+    const counts = new Map<string, number>();
+    for (const check of checks) {
+        const severity = getSeverityForCheckId(check.checkId) || 'UNKNOWN';
+        counts.set(severity, (counts.get(severity) || 0) + 1);
+    }
+    const rank = (severity: string) => severityOrder.includes(severity) ? severityOrder.indexOf(severity) : severityOrder.length;
+    return [...counts.entries()]
+        .sort(([a], [b]) => rank(a) - rank(b))
+        .map(([severity, count]) => `${count} ${severity}`)
+        .join(', ');
+};
+
+const provideCheckovCodeLenses = (workspaceState: vscode.Memento) => (document: vscode.TextDocument): vscode.CodeLens[] => {
+    const codeLenses: vscode.CodeLens[] = [];
+    if (!shouldShowCodeLens()) return codeLenses;
+    for (const [resource, findings] of getFindingsByResource(workspaceState, document)) {
+        const checks = findings.map(finding => finding.check);
+        const firstLine = Math.min(...checks.map(check => check.fileLineRange[0])) - 1;
+        if (firstLine < 0 || firstLine >= document.lineCount) continue;
+
+        const range = document.lineAt(firstLine).range;
+        const commandArguments = [document.uri, resource];
+        codeLenses.push(new vscode.CodeLens(range, {
+            title: `Checkov: ${getSeveritySummary(checks)} — show`,
+            command: SHOW_RESOURCE_ACTIONS_COMMAND,
+            arguments: commandArguments
+        }));
+        if (checks.some(check => check.fixedDefinition && !check.stale)) {
+            codeLenses.push(new vscode.CodeLens(range, { title: 'fix all', command: FIX_RESOURCE_COMMAND, arguments: commandArguments }));
+        }
+        if (checks.some(check => canSuppressCheck(document, check))) {
+            codeLenses.push(new vscode.CodeLens(range, { title: 'suppress all', command: SUPPRESS_RESOURCE_COMMAND, arguments: commandArguments }));
+        }
+    }
+    return codeLenses;
+};
+
+export const checkovCodeLensProvider = (workspaceState: vscode.Memento, onDidChangeCodeLenses: vscode.Event<void>): vscode.CodeLensProvider => ({
+    onDidChangeCodeLenses,
+    provideCodeLenses: provideCheckovCodeLenses(workspaceState)
+});
+
+const getResourceFindings = async (workspaceState: vscode.Memento, uri: vscode.Uri, resource: string): Promise<[vscode.TextDocument, ResourceFinding[]]> => {
+    const document = await vscode.workspace.openTextDocument(uri);
+    return [document, getFindingsByResource(workspaceState, document).get(resource) || []];
+};
+
+const applyResourceEdit = async (edit: vscode.WorkspaceEdit): Promise<boolean> => {
+    const applied = await vscode.workspace.applyEdit(edit);
+    if (applied) {
+        await vscode.commands.executeCommand(REMOVE_DIAGNOSTICS_COMMAND);
+    }
+    return applied;
+};
+
+/**
+ * Offers the code actions of every finding on the resource in a single pick
+ */
+export const showResourceActions = (workspaceState: vscode.Memento) => async (uri: vscode.Uri, resource: string): Promise<void> => {
+    const [document, findings] = await getResourceFindings(workspaceState, uri, resource);
+    const actions = findings.flatMap(finding => createCommandCodeAction(document, finding.diagnostic, finding.check));
+    const picked = await vscode.window.showQuickPick(actions.map(action => ({ label: action.title, action })), { placeHolder: `Checkov findings for ${resource}` });
+    if (!picked) return;
+
+    if (picked.action.edit && !await vscode.workspace.applyEdit(picked.action.edit)) return;
+    if (picked.action.command) {
+        await vscode.commands.executeCommand(picked.action.command.command, ...(picked.action.command.arguments || []));
+    }
+};
+
+export const fixResource = (workspaceState: vscode.Memento) => async (uri: vscode.Uri, resource: string): Promise<void> => {
+    const [document, findings] = await getResourceFindings(workspaceState, uri, resource);
+    // findings edited since the scan are left out, since their fixes are based on the previous content of their block
+    const { edit, applied, skipped } = createCombinedFixEdit(document, findings.map(finding => finding.check).filter(check => !check.stale));
+    if (applied.length === 0 || !await applyResourceEdit(edit)) return;
+
+    if (skipped.length > 0) {
+        vscode.window.showInformationMessage(`Applied ${applied.length} fix(es) to ${resource}. ${skipped.length} overlapping fix(es) will be offered again after the next scan.`);
+    }
+};
+
+export const suppressResource = (workspaceState: vscode.Memento) => async (uri: vscode.Uri, resource: string): Promise<void> => {
+    const [document, findings] = await getResourceFindings(workspaceState, uri, resource);
+    await applyResourceEdit(createSuppressionEdit(document, findings.map(finding => finding.check)));
+};
@@ -8,3 +8,21 @@ export const OPEN_CHECKOV_LOG = 'checkov-prismaless.open-log';
 export const CLEAR_RESULTS_CACHE = 'checkov-prismaless.clear-results-cache';
 export const CLEAR_VERSION_CACHE = 'checkov-prismaless.clear-version-cache';
 export const REFRESH_SEVERITY_MAPPINGS = 'checkov-prismaless.refresh-severity-mappings';
+export const SCAN_WORKSPACE_COMMAND = 'checkov-prismaless.scan-workspace';
+export const EXPORT_SARIF_COMMAND = 'checkov-prismaless.export-sarif';
+export const IMPORT_CI_RESULTS_COMMAND = 'checkov-prismaless.import-ci-results';
+export const CLEAR_CI_RESULTS_COMMAND = 'checkov-prismaless.clear-ci-results';
+export const CREATE_BASELINE_COMMAND = 'checkov-prismaless.create-baseline';
+export const SHOW_RESOURCE_ACTIONS_COMMAND = 'checkov-prismaless.show-resource-actions';
+export const FIX_RESOURCE_COMMAND = 'checkov-prismaless.fix-resource';
+export const SUPPRESS_RESOURCE_COMMAND = 'checkov-prismaless.suppress-resource';
+export const FIX_ALL_COMMAND = 'checkov-prismaless.fix-all';
+export const AUDIT_SUPPRESSIONS_COMMAND = 'checkov-prismaless.audit-suppressions';
+export const ACCEPT_RISK_COMMAND = 'checkov-prismaless.accept-risk';
+export const ADD_TO_CHECKOV_CONFIG_COMMAND = 'checkov-prismaless.add-to-config';
+export const REFRESH_CHECK_CATALOG_COMMAND = 'checkov-prismaless.refresh-check-catalog';
+export const SEARCH_CHECK_CATALOG_COMMAND = 'checkov-prismaless.search-check-catalog';
+export const CLEAR_CHECK_CATALOG_SEARCH_COMMAND = 'checkov-prismaless.clear-check-catalog-search';
+export const ADD_CATALOG_CHECK_COMMAND = 'checkov-prismaless.add-catalog-check';
+export const SKIP_CATALOG_CHECK_COMMAND = 'checkov-prismaless.skip-catalog-check';
+export const OPEN_CATALOG_CHECK_GUIDELINE_COMMAND = 'checkov-prismaless.open-catalog-check-guideline';
@@ -0,0 +1,248 @@
+import * as vscode from 'vscode';
+import { isMap, isScalar, isSeq, parseDocument } from 'yaml';
+import { getSeverityProvider } from './severityProvider';
+
+export const CONFIG_DOCUMENT_SELECTOR: vscode.DocumentSelector = [{ pattern: '**/.checkov.{yml,yaml}' }];
+export const CONFIG_DIAGNOSTIC_SOURCE = 'Checkov config';
+
+type ConfigValueType = 'boolean' | 'string' | 'list';
+
+// Options of the Checkov CLI that can be set in a config file, by their long name, as `checkov --create-config` writes them
+const configSchema: Record<string, ConfigValueType> = {
+    'version': 'boolean',
+    'support': 'boolean',
+    'directory': 'list',
+    'add-check': 'boolean',
+    'file': 'list',
+    'skip-path': 'list',
+    'external-checks-dir': 'list',
+    'external-checks-git': 'list',
+    'list': 'boolean',
+    'output': 'list',
+    'output-file-path': 'string',
+    'output-bc-ids': 'boolean',
+    'include-all-checkov-policies': 'boolean',
+    'quiet': 'boolean',
+    'compact': 'boolean',
+    'no-guide': 'boolean',
+    'framework': 'list',
+    'skip-framework': 'list',
+    'check': 'list',
+    'skip-check': 'list',
+    'run-all-external-checks': 'boolean',
+    'soft-fail': 'boolean',
+    'soft-fail-on': 'list',
+    'hard-fail-on': 'list',
+    'bc-api-key': 'string',
+    'prisma-api-url': 'string',
+    'skip-results-upload': 'boolean',
+    'docker-image': 'string',
+    'image': 'string',
+    'dockerfile-path': 'string',
+    'repo-id': 'string',
+    'branch': 'string',
+    'skip-download': 'boolean',
+    'use-enforcement-rules': 'boolean',
+    'download-external-modules': 'boolean',
+    'var-file': 'list',
+    'external-modules-download-path': 'string',
+    'evaluate-variables': 'boolean',
+    'ca-certificate': 'string',
+    'no-cert-verify': 'boolean',
+    'repo-root-for-plan-enrichment': 'list',
+    'config-file': 'string',
+    'create-config': 'string',
+    'show-config': 'boolean',
+    'create-baseline': 'boolean',
+    'baseline': 'string',
+    'output-baseline-as-skipped': 'boolean',
+    'skip-cve-package': 'list',
+    'policy-metadata-filter': 'string',
+    'policy-metadata-filter-exception': 'string',
+    'secrets-scan-file-type': 'list',
+    'enable-secret-scan-all-files': 'boolean',
+    'block-list-secret-scan': 'list',
+    'summary-position': 'string',
+    'skip-resources-without-violations': 'boolean',
+    'deep-analysis': 'boolean',
+    'no-fail-on-crash': 'boolean',
+    'mask': 'list',
+    'scan-secrets-history': 'boolean',
+    'secrets-history-timeout': 'string',
+    'openai-api-key': 'string',
+    'custom-tool-name': 'string',
+    'skip-fixes': 'boolean',
+    'skip-suppressions': 'boolean',
+    'skip-policy-download': 'boolean'
+};
+
+const frameworks = [
+    'all', '3d_policy', 'ansible', 'argo_workflows', 'arm', 'azure_pipelines', 'bicep', 'bitbucket_configuration', 'bitbucket_pipelines',
+    'cdk', 'circleci_pipelines', 'cloudformation', 'dockerfile', 'github_actions', 'github_configuration', 'gitlab_ci',
+    'gitlab_configuration', 'helm', 'json', 'kubernetes', 'kustomize', 'openapi', 'sast', 'sast_golang', 'sast_java',
+    'sast_javascript', 'sast_python', 'sast_typescript', 'sca_image', 'sca_package', 'secrets', 'serverless', 'terraform',
+    'terraform_json', 'terraform_plan', 'yaml'
+];
+
+const frameworkKeys = ['framework', 'skip-framework'];
+const checkIdKeys = ['check', 'skip-check', 'soft-fail-on', 'hard-fail-on'];
+
+// Checkov accepts both `-` and `_` in key names
+const normalizeKey = (key: string): string => key.replace(/_/g, '-');
+
+const getEditDistance = (a: string, b: string): number => {
+    const distances = Array.from({ length: b.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= a.length; i++) {
+        let previousDiagonal = distances[0];
+        distances[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const current = distances[j];
+            distances[j] = Math.min(distances[j] + 1, distances[j - 1] + 1, previousDiagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+            previousDiagonal = current;
+        }
+    }
+    return distances[b.length];
+};
+
+const getClosestKey = (key: string): string | undefined => {
+    const [closest] = Object.keys(configSchema)
+        .map(candidate => ({ candidate, distance: getEditDistance(normalizeKey(key), candidate) }))
+        .sort((a, b) => a.distance - b.distance);
+    return closest && closest.distance <= 3 ? closest.candidate : undefined;
+};
+
+const isValueOfType = (value: unknown, valueType: ConfigValueType): boolean => {
+    switch (valueType) {
+        case 'boolean':
+            return isScalar(value) && typeof value.value === 'boolean';
+        case 'string':
+            return isScalar(value) && value.value !== null && typeof value.value !== 'boolean' && typeof value.value !== 'object';
+        case 'list':
+            // lists may also be written as a single comma separated value
+            return isSeq(value) || (isScalar(value) && value.value !== null && typeof value.value !== 'boolean');
+    }
+};
+
+const getListValues = (value: unknown): { text: string, range?: [number, number, number] }[] => {
+    if (isSeq(value)) {
+        return value.items.filter(isScalar).map(item => ({ text: String(item.value), range: item.range || undefined }));
+    }
+    return isScalar(value) ? String(value.value).split(',').map(text => ({ text: text.trim(), range: value.range || undefined })) : [];
+};
+
+/**
+ * Validates a Checkov config file: YAML syntax, unknown keys, value types and framework names
+ */
+export const validateConfigDocument = (document: vscode.TextDocument): vscode.Diagnostic[] => {
+    const yamlDocument = parseDocument(document.getText());
+    const toRange = (range: [number, number, number] | null | undefined): vscode.Range =>
+        range ? new vscode.Range(document.positionAt(range[0]), document.positionAt(range[1])) : new vscode.Range(0, 0, 0, 0);
+    const createDiagnostic = (range: vscode.Range, message: string, severity = vscode.DiagnosticSeverity.Warning): vscode.Diagnostic => {
+        const diagnostic = new vscode.Diagnostic(range, message, severity);
+        diagnostic.source = CONFIG_DIAGNOSTIC_SOURCE;
+        return diagnostic;
+    };
+
+    const syntaxDiagnostics = yamlDocument.errors.map(error =>
+        createDiagnostic(new vscode.Range(document.positionAt(error.pos[0]), document.positionAt(error.pos[1])), error.message, vscode.DiagnosticSeverity.Error));
+    if (syntaxDiagnostics.length > 0 || !yamlDocument.contents) {
+        return syntaxDiagnostics;
+    }
+    if (!isMap(yamlDocument.contents)) {
+        return [createDiagnostic(toRange(yamlDocument.contents.range), 'A Checkov config file must be a mapping of options to values', vscode.DiagnosticSeverity.Error)];
+    }
+
+    return yamlDocument.contents.items.flatMap(pair => {
+        if (!isScalar(pair.key)) return [];
+        const key = String(pair.key.value);
+        const keyRange = toRange(pair.key.range);
+        const valueType = configSchema[normalizeKey(key)];
+        if (!valueType) {
+            const closestKey = getClosestKey(key);
+            // newer Checkov versions add options, so an unknown one is not necessarily a mistake
+            return [createDiagnostic(keyRange, `Unknown Checkov option '${key}'${closestKey ? `, did you mean '${closestKey}'?` : ''}`, vscode.DiagnosticSeverity.Information)];
+        }
+        if (!isValueOfType(pair.value, valueType)) {
+            const expected = valueType === 'list' ? 'a list or a comma separated string' : `a ${valueType}`;
+            return [createDiagnostic(isScalar(pair.value) || isSeq(pair.value) || isMap(pair.value) ? toRange(pair.value.range) : keyRange, `'${key}' expects ${expected}`)];
+        }
+        if (frameworkKeys.includes(normalizeKey(key))) {
+            return getListValues(pair.value)
+                .filter(({ text }) => text.split(/\s+/).some(framework => framework && !frameworks.includes(framework)))
+                .map(({ text, range }) => createDiagnostic(toRange(range), `Unknown framework '${text}'`, vscode.DiagnosticSeverity.Information));
+        }
+        return [];
+    });
+};
+
+/**
+ * Returns the top-level key the given line belongs to, either on the line itself or on the closest unindented line above
+ */
+const getParentKey = (document: vscode.TextDocument, position: vscode.Position): string | undefined => {
+    for (let line = position.line; line >= 0; line--) {
+        const text = line === position.line ? document.lineAt(line).text.substring(0, position.character) : document.lineAt(line).text;
+        const match = text.match(/^([\w-]+)\s*:/);
+        if (match) return normalizeKey(match[1]);
+        // list items may sit at the same indentation as their key
+        if (line !== position.line && /^[^\s#-]/.test(text)) return undefined;
+    }
+    return undefined;
+};
+
+// Names of the checks seen in scan results, by check ID; the severity mappings only hold severities
+type CheckNamesProvider = () => Map<string, string>;
+
+const createCheckIdCompletions = (getCheckNames: CheckNamesProvider): vscode.CompletionItem[] => {
+    const severityProvider = getSeverityProvider();
+    const checkNames = getCheckNames();
+    const checkIds = new Set([...severityProvider.getCheckIds(), ...checkNames.keys()]);
+    return [...checkIds].map(checkId => {
+        const item = new vscode.CompletionItem(checkId, vscode.CompletionItemKind.Value);
+        item.detail = [severityProvider.getSeverity(checkId), checkNames.get(checkId)].filter(Boolean).join(' · ');
+        return item;
+    });
+};
+
+export const checkovConfigCompletionProvider = (getCheckNames: CheckNamesProvider): vscode.CompletionItemProvider => ({
+    provideCompletionItems: (document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] => {
+        const linePrefix = document.lineAt(position.line).text.substring(0, position.character);
+        if (/^[\w-]*$/.test(linePrefix)) {
+            return Object.entries(configSchema).map(([key, valueType]) => {
+                const item = new vscode.CompletionItem(key, vscode.CompletionItemKind.Property);
+                item.detail = valueType;
+                item.insertText = valueType === 'list' ? new vscode.SnippetString(`${key}:\n  - $0`) : new vscode.SnippetString(`${key}: $0`);
+                return item;
+            });
+        }
+
+        const parentKey = getParentKey(document, position);
+        if (parentKey && frameworkKeys.includes(parentKey)) {
+            return frameworks.map(framework => new vscode.CompletionItem(framework, vscode.CompletionItemKind.EnumMember));
+        }
+        if (parentKey && checkIdKeys.includes(parentKey)) {
+            return createCheckIdCompletions(getCheckNames);
+        }
+        return [];
+    }
+});
+
+export const checkovConfigHoverProvider = (getCheckNames: CheckNamesProvider): vscode.HoverProvider => ({
+    provideHover: (document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined => {
+        const parentKey = getParentKey(document, position);
+        const wordRange = document.getWordRangeAtPosition(position, /[A-Za-z0-9_]+/);
+        if (!parentKey || !checkIdKeys.includes(parentKey) || !wordRange) return undefined;
+
+        const checkId = document.getText(wordRange);
+        const severity = getSeverityProvider().getSeverity(checkId);
+        const checkName = getCheckNames().get(checkId);
+        if (!severity && !checkName) return undefined;
+
+        const markdown = new vscode.MarkdownString();
+        markdown.appendMarkdown(`**${checkId}**${severity ? ` · ${severity}` : ''}`);
+        if (checkName) {
+            markdown.appendMarkdown('\n\n');
+            markdown.appendText(checkName);
+        }
+        return new vscode.Hover(markdown, wordRange);
+    }
+});
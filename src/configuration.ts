@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import { Logger } from 'winston';
 import * as semver from 'semver';
 import { isWindows, asyncExec } from './utils';
+import { ContainerHardening } from './checkov/containerRuntime';
 
 const minCheckovVersion = '2.0.0';
 const minPythonVersion = '3.7.0';
@@ -125,3 +126,115 @@ export const getScanTimeout = (): number => {
     const scanTimeout = configuration.get<number>('scanTimeout', 60);
     return scanTimeout;
 };
+
+export const shouldMergeParentConfigs = (): boolean => {
+    const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('checkov-prismaless');
+    const mergeParentConfigs = configuration.get<boolean>('mergeParentConfigs', false);
+    return mergeParentConfigs;
+};
+
+export const shouldUseBaseline = (): boolean => {
+    const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('checkov-prismaless');
+    const useBaseline = configuration.get<boolean>('useBaseline', false);
+    return useBaseline;
+};
+
+export const shouldShowBaselinedFindings = (): boolean => {
+    const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('checkov-prismaless');
+    const showBaselinedFindings = configuration.get<boolean>('showBaselinedFindings', false);
+    return showBaselinedFindings;
+};
+
+export const getCompareBaseBranch = (): string | undefined => {
+    const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('checkov-prismaless');
+    const compareBaseBranch = configuration.get<string>('compareBaseBranch');
+    return compareBaseBranch?.trim() || undefined;
+};
+
+export const shouldScanOnType = (): boolean => {
+    const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('checkov-prismaless');
+    const scanOnType = configuration.get<boolean>('scanOnType', false);
+    return scanOnType;
+};
+
+export const getScanOnTypeDelay = (): number => {
+    const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('checkov-prismaless');
+    const scanOnTypeDelay = configuration.get<number>('scanOnTypeDelay', 1000);
+    return scanOnTypeDelay;
+};
+
+export type DiagnosticRangeMode = 'header' | 'block';
+
+export const getDiagnosticRangeMode = (): DiagnosticRangeMode => {
+    const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('checkov-prismaless');
+    const diagnosticRange = configuration.get<DiagnosticRangeMode>('diagnosticRange', 'header');
+    return diagnosticRange;
+};
+
+export const shouldShowCodeLens = (): boolean => {
+    const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('checkov-prismaless');
+    const showCodeLens = configuration.get<boolean>('showCodeLens', true);
+    return showCodeLens;
+};
+
+export const getSeverityOverrides = (): Record<string, string> => {
+    const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('checkov-prismaless');
+    const severityOverrides = configuration.get<Record<string, string>>('severityOverrides', {});
+    return severityOverrides;
+};
+
+export const getOrganizationSeverityMappings = (): string | undefined => {
+    const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('checkov-prismaless');
+    const organizationSeverityMappings = configuration.get<string>('organizationSeverityMappings');
+    return organizationSeverityMappings?.trim() || undefined;
+};
+
+export const isOfflineMode = (): boolean => {
+    const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('checkov-prismaless');
+    const offline = configuration.get<boolean>('offline', false);
+    return offline;
+};
+
+export const getContainerRuntimeExecutable = (): string => {
+    const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('checkov-prismaless');
+    const containerRuntime = configuration.get<string>('containerRuntime', 'docker');
+    return containerRuntime.trim() || 'docker';
+};
+
+export const getContainerSocket = (): string | undefined => {
+    const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('checkov-prismaless');
+    const containerSocket = configuration.get<string>('containerSocket');
+    return containerSocket?.trim() || undefined;
+};
+
+export const getContainerImage = (): string | undefined => {
+    const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('checkov-prismaless');
+    const containerImage = configuration.get<string>('containerImage');
+    return containerImage?.trim() || undefined;
+};
+
+/**
+ * The limits of the hardened container, or undefined when scans run in a regular container
+ */
+export const getContainerHardening = (): ContainerHardening | undefined => {
+    const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('checkov-prismaless');
+    if (!configuration.get<boolean>('hardenedContainer', false)) {
+        return undefined;
+    }
+    return {
+        memoryLimit: configuration.get<string>('containerMemoryLimit')?.trim() || undefined,
+        cpuLimit: configuration.get<string>('containerCpuLimit')?.trim() || undefined
+    };
+};
+
+export const shouldUseWarmContainer = (): boolean => {
+    const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('checkov-prismaless');
+    const warmContainer = configuration.get<boolean>('warmContainer', false);
+    return warmContainer;
+};
+
+export const getBatchScanWindow = (): number => {
+    const configuration: vscode.WorkspaceConfiguration = vscode.workspace.getConfiguration('checkov-prismaless');
+    const batchScanWindow = configuration.get<number>('batchScanWindow', 0);
+    return batchScanWindow;
+};
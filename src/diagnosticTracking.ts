@@ -0,0 +1,45 @@
+import * as vscode from 'vscode';
+import { FailedCheckovCheck } from './checkov';
+
+const countNewLines = (text: string): number => text.split('\n').length - 1;
+
+/**
+ * A change that ends at the very start of the block's first line, and inserts nothing or whole lines,
+ * only adds or removes lines above the block without touching its content
+ */
+const endsBeforeLine = (change: vscode.TextDocumentContentChangeEvent, line: number): boolean =>
+    change.range.end.line < line
+    || (change.range.end.line === line && change.range.end.character === 0 && (change.text === '' || change.text.endsWith('\n')));
+
+const shiftFailedCheck = (failedCheck: FailedCheckovCheck, change: vscode.TextDocumentContentChangeEvent): FailedCheckovCheck => {
+    // checkov results are 1-based; ranges of the change are 0-based
+    const start = failedCheck.fileLineRange[0] - 1;
+    const end = failedCheck.fileLineRange[1] - 1;
+    const changeStart = change.range.start.line;
+    const lineDelta = countNewLines(change.text) - (change.range.end.line - change.range.start.line);
+
+    if (changeStart > end) {
+        return failedCheck;
+    }
+    if (endsBeforeLine(change, start)) {
+        return lineDelta === 0 ? failedCheck : { ...failedCheck, fileLineRange: [start + lineDelta + 1, end + lineDelta + 1] };
+    }
+
+    // the change edits the block itself, so its result no longer reflects the content
+    const newStart = Math.min(start, changeStart);
+    const newEnd = Math.max(newStart, end + lineDelta);
+    return { ...failedCheck, fileLineRange: [newStart + 1, newEnd + 1], stale: true };
+};
+
+/**
+ * Moves the line ranges of failed checks along with the edits of a document, so findings keep pointing at their
+ * resources until the next scan. Findings whose block was edited are flagged as stale.
+ */
+export const shiftFailedChecks = (failedChecks: FailedCheckovCheck[], contentChanges: readonly vscode.TextDocumentContentChangeEvent[], lineCount: number): FailedCheckovCheck[] => {
+    // changes of a single event are applied one after the other, each relative to the result of the previous one
+    const shifted = contentChanges.reduce((checks, change) => checks.map(check => shiftFailedCheck(check, change)), failedChecks);
+    return shifted.map(failedCheck => {
+        const [start, end] = failedCheck.fileLineRange.map(line => Math.min(Math.max(line, 1), lineCount));
+        return start === failedCheck.fileLineRange[0] && end === failedCheck.fileLineRange[1] ? failedCheck : { ...failedCheck, fileLineRange: [start, end] };
+    });
+};
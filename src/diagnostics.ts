@@ -1,19 +1,47 @@
 import * as vscode from 'vscode';
 import { Logger } from 'winston';
 import { FailedCheckovCheck } from './checkov';
-import { getSeverityForCheckId, mapSeverityToVSCode } from './utils';
+import { getSeverityForCheckId, getSeveritySourceForCheckId, mapSeverityToVSCode } from './utils';
+import { DiagnosticRangeMode, getDiagnosticRangeMode } from './configuration';
+import { isAcceptedRisk } from './acceptances';
+
+export const DIAGNOSTIC_SOURCE = 'Checkov ';
+export const CI_DIAGNOSTIC_SOURCE = 'Checkov CI';
 
 export interface DiagnosticReferenceCode {
     target: vscode.Uri;
     value: string;
 }
 
-export const applyDiagnostics = (document: vscode.TextDocument, diagnostics: vscode.DiagnosticCollection, failedCheckovChecks: FailedCheckovCheck[], logger?: Logger): void => {
+/**
+ * Highlights either the first line of the resource (from its first non-whitespace character) or the whole resource block
+ */
+const getDiagnosticRange = (document: vscode.TextDocument, failure: FailedCheckovCheck, rangeMode: DiagnosticRangeMode): vscode.Range => {
+    const line = document.lineAt(failure.fileLineRange[0] > 0 ? failure.fileLineRange[0] - 1 : 0); // checkov results are 1-based; these lines are 0-based
+    const startPos = line.range.start.translate({ characterDelta: line.firstNonWhitespaceCharacterIndex });
+    if (rangeMode === 'block' && failure.fileLineRange[1] > failure.fileLineRange[0]) {
+        const endLine = document.lineAt(Math.min(failure.fileLineRange[1], document.lineCount) - 1);
+        return new vscode.Range(startPos, endLine.range.end);
+    }
+    return new vscode.Range(startPos, line.range.end);
+};
+
+// Findings about deprecated runtimes, versions or attributes are rendered as deprecated code
+const getDiagnosticTags = (failure: FailedCheckovCheck): vscode.DiagnosticTag[] =>
+    /deprecated/i.test(failure.checkName) ? [vscode.DiagnosticTag.Deprecated] : [];
+
+const getAcceptanceSuffix = (failure: FailedCheckovCheck): string => failure.acceptance
+    ? ` (expired acceptance: accepted by ${failure.acceptance.owner} until ${failure.acceptance.expires})`
+    : '';
+
+export const applyDiagnostics = (document: vscode.TextDocument, diagnostics: vscode.DiagnosticCollection, checks: FailedCheckovCheck[], logger?: Logger, source = DIAGNOSTIC_SOURCE): void => {
     const foundDiagnostics: vscode.Diagnostic[] = [];
+    // accepted risks are hidden until their acceptance expires, so it is checked every time they are shown
+    const failedCheckovChecks = checks.filter(failure => !isAcceptedRisk(failure));
+    const rangeMode = getDiagnosticRangeMode();
+    const ranges = failedCheckovChecks.map(failure => getDiagnosticRange(document, failure, rangeMode));
 
-    for (const failure of failedCheckovChecks) {
-        const line = document.lineAt(failure.fileLineRange[0] > 0 ? failure.fileLineRange[0] - 1 : 0); // checkov results are 1-based; these lines are 0-based
-        const startPos = line.range.start.translate({ characterDelta: line.firstNonWhitespaceCharacterIndex });
+    for (const [index, failure] of failedCheckovChecks.entries()) {
         const code: DiagnosticReferenceCode | string =
             failure.guideline?.startsWith('http') ?
                 {
@@ -31,19 +59,28 @@ export const applyDiagnostics = (document: vscode.TextDocument, diagnostics: vsc
             logger.debug(`Processing ${failure.checkId}: original severity=${failure.severity}, mapped severity=${severityString}`);
         }
 
-        // Map severity to VS Code diagnostic severity
-        const vsSeverity = mapSeverityToVSCode(severityString);
+        // Map severity to VS Code diagnostic severity; findings already in the baseline are only hinted at
+        const vsSeverity = failure.baselined ? vscode.DiagnosticSeverity.Hint : mapSeverityToVSCode(severityString);
+
+        // Create message with severity prefix, naming the layer of the severity mappings it comes from
+        const severitySource = getSeveritySourceForCheckId(failure.checkId);
+        const severityPrefix = `[${severityString.toUpperCase()}${severitySource ? ` · ${severitySource}` : ''}] `;
+        const message = `${severityPrefix}${failure.checkName}${failure.baselined ? ' (baselined)' : ''}${getAcceptanceSuffix(failure)}${failure.stale ? ' (stale, save to rescan)' : ''}`;
 
-        // Create message with severity prefix
-        const severityPrefix = `[${severityString.toUpperCase()}] `;
-        const message = `${severityPrefix}${failure.checkName}`;
+        // Link every other finding on the same resource, to jump between all issues of one resource
+        const relatedInformation = failedCheckovChecks
+            .map((other, otherIndex) => ({ other, range: ranges[otherIndex], otherIndex }))
+            .filter(({ other, otherIndex }) => otherIndex !== index && failure.resource && other.resource === failure.resource)
+            .map(({ other, range }) => new vscode.DiagnosticRelatedInformation(new vscode.Location(document.uri, range), `${other.checkId}: ${other.checkName}`));
 
         foundDiagnostics.push({
             message,
-            range: new vscode.Range(startPos, line.range.end),
+            range: ranges[index],
             severity: vsSeverity,
-            source: 'Checkov ',
-            code
+            source,
+            code,
+            relatedInformation,
+            tags: getDiagnosticTags(failure)
         });
     }
 
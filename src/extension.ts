@@ -1,19 +1,37 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
+import { readFileSync } from 'fs';
 import debounce from 'lodash/debounce';
 import { Logger } from 'winston';
-import { CheckovInstallation, FailedCheckovCheck, installOrUpdateCheckov, runCheckovScan } from './checkov';
-import { applyDiagnostics } from './diagnostics';
-import { fixCodeActionProvider, providedCodeActionKinds } from './suggestFix';
-import { getLogger, saveCheckovResult, isSupportedFileType, extensionVersion, runVersionCommand, getFileHash, saveCachedResults, getCachedResults, clearCache, checkovVersionKey } from './utils';
-import { initializeStatusBarItem, setErrorStatusBarItem, setPassedStatusBarItem, setReadyStatusBarItem, setSyncingStatusBarItem, showAboutCheckovMessage, showContactUsDetails } from './userInterface';
-import { getCheckovVersion, shouldDisableErrorMessage, shouldClearCacheUponConfigUpdate, getPathToCert, getUseBcIds, getUseDebugLogs, getExternalChecksDir, getNoCertVerify, getSkipFrameworks, getFrameworks, getSkipChecks, getMaximumConcurrentScans, getScanTimeout } from './configuration';
-import { CLEAR_RESULTS_CACHE, GET_INSTALLATION_DETAILS_COMMAND, INSTALL_OR_UPDATE_CHECKOV_COMMAND, OPEN_CHECKOV_LOG, OPEN_CONFIGURATION_COMMAND, OPEN_EXTERNAL_COMMAND, REFRESH_SEVERITY_MAPPINGS, REMOVE_DIAGNOSTICS_COMMAND, RUN_FILE_SCAN_COMMAND } from './commands';
-import { getConfigFilePath } from './parseCheckovConfig';
+import { CatalogCheck, CheckovInstallation, CheckovNotAvailableOfflineError, CheckovResponse, CheckovRunOptions, FailedCheckovCheck, installOrUpdateCheckov, listCheckovChecks, runCheckovScan, splitCheckovResponse, stopWorkerContainers } from './checkov';
+import { applyDiagnostics, CI_DIAGNOSTIC_SOURCE } from './diagnostics';
+import { createFixAllEdit, fixCodeActionProvider, providedCodeActionKinds } from './suggestFix';
+import { checkovHoverProvider } from './hoverProvider';
+import { checkovCodeLensProvider, fixResource, showResourceActions, suppressResource } from './codeLensProvider';
+import { getLogger, saveCheckovResult, createCheckovIdentityKey, isSupportedFileType, extensionVersion, runVersionCommand, getFileHash, saveCachedResults, getCachedResults, clearCache, checkovVersionKey, getFailedChecksByFile, isPathInside, clearCachedResultsUnder, getAllCachedResults, getWorkspacePath, getMergeBaseFileContent, isDirectory, checkCatalogKey, getDockerPathParams } from './utils';
+import { initializeStatusBarItem, setErrorStatusBarItem, setOfflineMissingStatusBarItem, setPassedStatusBarItem, setReadyStatusBarItem, setSyncingStatusBarItem, showAboutCheckovMessage, showContactUsDetails } from './userInterface';
+import { getCheckovVersion, shouldDisableErrorMessage, shouldClearCacheUponConfigUpdate, getPathToCert, getUseBcIds, getUseDebugLogs, getExternalChecksDir, getNoCertVerify, getSkipFrameworks, getFrameworks, getSkipChecks, getMaximumConcurrentScans, getScanTimeout, shouldUseBaseline, shouldShowBaselinedFindings, getCompareBaseBranch, shouldScanOnType, getScanOnTypeDelay, isOfflineMode, getContainerHardening, shouldUseWarmContainer, getBatchScanWindow } from './configuration';
+import { CLEAR_RESULTS_CACHE, GET_INSTALLATION_DETAILS_COMMAND, INSTALL_OR_UPDATE_CHECKOV_COMMAND, OPEN_CHECKOV_LOG, OPEN_CONFIGURATION_COMMAND, OPEN_EXTERNAL_COMMAND, REFRESH_SEVERITY_MAPPINGS, REMOVE_DIAGNOSTICS_COMMAND, RUN_FILE_SCAN_COMMAND, SCAN_WORKSPACE_COMMAND, EXPORT_SARIF_COMMAND, IMPORT_CI_RESULTS_COMMAND, CLEAR_CI_RESULTS_COMMAND, CREATE_BASELINE_COMMAND, SHOW_RESOURCE_ACTIONS_COMMAND, FIX_RESOURCE_COMMAND, SUPPRESS_RESOURCE_COMMAND, FIX_ALL_COMMAND, AUDIT_SUPPRESSIONS_COMMAND, ACCEPT_RISK_COMMAND, ADD_TO_CHECKOV_CONFIG_COMMAND, REFRESH_CHECK_CATALOG_COMMAND, SEARCH_CHECK_CATALOG_COMMAND, CLEAR_CHECK_CATALOG_SEARCH_COMMAND, ADD_CATALOG_CHECK_COMMAND, SKIP_CATALOG_CHECK_COMMAND, OPEN_CATALOG_CHECK_GUIDELINE_COMMAND } from './commands';
+import { addToConfigList, CheckovConfigListKey, getConfigFilePath, getNearestConfigFilePath, isCheckovConfigFile } from './parseCheckovConfig';
 import { clearVersionCache } from './checkov/checkovInstaller';
 import { initializeSeverityProvider, getSeverityProvider } from './severityProvider';
+import { FindingsTreeDataProvider, FINDINGS_VIEW_ID } from './findingsTreeView';
+import { createSarifLog, FileResults } from './sarif';
+import { getCiChecksByFile, loadCiResults } from './ciResults';
+import { getBaselineFilePath, markBaselinedChecks } from './baseline';
+import { createScanBatcher } from './scanBatcher';
+import { getContentHash, getFailedChecksNotInBase, MERGE_BASE_CACHE_SUFFIX, stageMergeBaseFile } from './branchDiff';
+import { removeStagedDocument, stageDocument } from './bufferStaging';
+import { shiftFailedChecks } from './diagnosticTracking';
+import { checkovConfigCompletionProvider, checkovConfigHoverProvider, CONFIG_DOCUMENT_SELECTOR, validateConfigDocument } from './configLanguage';
+import { getNextAcceptanceExpiry, isAcceptanceExpired, isAcceptancesFile, isOpenFinding, markAcceptedChecks, recordAcceptance } from './acceptances';
+import { applySuppressionDiagnostics, auditSuppressions, findSuppressions, MAX_SUPPRESSION_FILES, SUPPRESSION_FILES_EXCLUDE_GLOB, SUPPRESSION_FILES_GLOB, SuppressionsTreeDataProvider, SUPPRESSIONS_VIEW_ID } from './suppressionInventory';
+import { CatalogCheckNode, CheckCatalogTreeDataProvider, CHECK_CATALOG_VIEW_ID } from './checkCatalog';
 
 export const CHECKOV_MAP = 'checkovMap';
 const logFileName = 'checkov.log';
+// the longest delay setTimeout supports
+const MAX_TIMEOUT_DELAY = 2 ** 31 - 1;
 
 export const CLEAR_VERSION_CACHE = 'checkov-prismaless.clear-version-cache';
 
@@ -50,11 +68,52 @@ export function activate(context: vscode.ExtensionContext): void {
     let checkovInstallation: CheckovInstallation | null = null;
     const checkovInstallationDir = vscode.Uri.joinPath(context.globalStorageUri, 'checkov-installation').fsPath;
     const MAX_CONCURRENT_SCANS = getMaximumConcurrentScans();
+    const SCAN_ON_TYPE_DELAY = getScanOnTypeDelay();
+    const BATCH_SCAN_WINDOW = getBatchScanWindow();
 
     // Set diagnostics collection
     const diagnostics = vscode.languages.createDiagnosticCollection('checkov-alerts');
     context.subscriptions.push(diagnostics);
 
+    // CI results are kept apart from live scans, so clearing or rescanning a file never touches them
+    const ciDiagnostics = vscode.languages.createDiagnosticCollection('checkov-ci-alerts');
+    context.subscriptions.push(ciDiagnostics);
+
+    // Problems in Checkov config files, which Checkov itself silently ignores
+    const configDiagnostics = vscode.languages.createDiagnosticCollection('checkov-config');
+    context.subscriptions.push(configDiagnostics);
+
+    // Latest results per document, so diagnostics can follow edits until the next scan
+    const documentResults: Map<string, FailedCheckovCheck[]> = new Map();
+    // Fires when the next risk acceptance of those results expires, to show its findings again
+    let acceptanceExpiryTimer: NodeJS.Timeout | undefined;
+    context.subscriptions.push({ dispose: () => clearTimeout(acceptanceExpiryTimer) });
+
+    // Set findings tree view
+    const findingsTree = new FindingsTreeDataProvider();
+    context.subscriptions.push(vscode.window.registerTreeDataProvider(FINDINGS_VIEW_ID, findingsTree));
+
+    // Set suppressions inventory, filled once the workspace suppressions have been audited
+    const suppressionsTree = new SuppressionsTreeDataProvider();
+    const suppressionDiagnostics = vscode.languages.createDiagnosticCollection('checkov-suppressions');
+    context.subscriptions.push(vscode.window.registerTreeDataProvider(SUPPRESSIONS_VIEW_ID, suppressionsTree), suppressionDiagnostics);
+    let suppressionsAudited = false;
+
+    // Checks suppressed in each scanned file, to tell which suppressions still match a finding
+    const skippedChecksByFile: Map<string, FailedCheckovCheck[]> = new Map();
+    const skippedChecksScanRoots: Set<string> = new Set();
+
+    // Severities are looked up whenever findings are drawn, so redraw them when an override layer changes
+    context.subscriptions.push(getSeverityProvider().onDidChangeMappings(() => redrawSeverities()));
+
+    // Set check catalog, loaded from the installed Checkov when the view is first shown
+    const checkCatalogTree = new CheckCatalogTreeDataProvider();
+    const checkCatalogView = vscode.window.createTreeView(CHECK_CATALOG_VIEW_ID, { treeDataProvider: checkCatalogTree });
+    let checkCatalogVersion: string | undefined;
+    context.subscriptions.push(checkCatalogView, checkCatalogView.onDidChangeVisibility(({ visible }) => {
+        if (visible && extensionReady && checkCatalogVersion !== checkovInstallation?.version) loadCheckCatalog();
+    }));
+
     // Set commands
     context.subscriptions.push(
         vscode.commands.registerCommand(INSTALL_OR_UPDATE_CHECKOV_COMMAND, async () => {
@@ -62,12 +121,12 @@ export function activate(context: vscode.ExtensionContext): void {
                 extensionReady = false;
                 setSyncingStatusBarItem(checkovInstallation?.actualVersion, 'Updating Checkov');
                 const checkovVersion = await getCheckovVersion(logger);
-                checkovInstallation = await installOrUpdateCheckov(logger, checkovInstallationDir, checkovVersion);
+                checkovInstallation = await installOrUpdateCheckov(logger, checkovInstallationDir, checkovVersion, isOfflineMode());
                 logger.info('Checkov installation: ', checkovInstallation);
 
                 // Only update version for non-Docker installations
                 if (checkovInstallation.checkovInstallationMethod !== 'docker') {
-                    checkovInstallation.version = await runVersionCommand(logger, checkovInstallation.checkovPath, checkovVersion);
+                    checkovInstallation.version = await runVersionCommand(logger, checkovInstallation.checkovPath);
                 }
 
                 const previousCheckovVersion = context.globalState.get(checkovVersionKey);
@@ -81,9 +140,16 @@ export function activate(context: vscode.ExtensionContext): void {
 
                 setReadyStatusBarItem(checkovInstallation.actualVersion);
                 extensionReady = true;
+                if (checkCatalogView.visible) loadCheckCatalog();
                 if (vscode.window.activeTextEditor && isSupportedFileType(vscode.window.activeTextEditor?.document.fileName))
                     vscode.commands.executeCommand(RUN_FILE_SCAN_COMMAND);
             } catch (error) {
+                if (error instanceof CheckovNotAvailableOfflineError) {
+                    setOfflineMissingStatusBarItem(error.message);
+                    logger.error(error.message);
+                    vscode.window.showWarningMessage(`${error.message}. Install it while online, or turn off the offline setting.`);
+                    return;
+                }
                 setErrorStatusBarItem(checkovInstallation?.actualVersion);
                 logger.error('Error occurred while preparing Checkov. Verify your settings, or try to reload vscode.', { error });
                 if (!shouldDisableErrorMessage()) {
@@ -99,9 +165,34 @@ export function activate(context: vscode.ExtensionContext): void {
             }
             await startScan(fileUri, true);
         }),
+        vscode.commands.registerCommand(SCAN_WORKSPACE_COMMAND, async (): Promise<void> => {
+            if (!extensionReady) {
+                logger.warn('Tried to scan the workspace before checkov finished installing or updating. Please wait a few seconds and try again.');
+                vscode.window.showWarningMessage('Still installing/updating Checkov, please wait a few seconds and try again.', 'Got it');
+                return;
+            }
+            await startWorkspaceScan();
+        }),
+        vscode.commands.registerCommand(CREATE_BASELINE_COMMAND, async (): Promise<void> => {
+            if (!extensionReady) {
+                logger.warn('Tried to create a baseline before checkov finished installing or updating. Please wait a few seconds and try again.');
+                vscode.window.showWarningMessage('Still installing/updating Checkov, please wait a few seconds and try again.', 'Got it');
+                return;
+            }
+            await createBaseline();
+        }),
+        vscode.commands.registerCommand(FIX_ALL_COMMAND, async (): Promise<void> => {
+            if (!extensionReady) {
+                logger.warn('Tried to apply fixes before checkov finished installing or updating. Please wait a few seconds and try again.');
+                vscode.window.showWarningMessage('Still installing/updating Checkov, please wait a few seconds and try again.', 'Got it');
+                return;
+            }
+            await fixAll();
+        }),
         vscode.commands.registerCommand(REMOVE_DIAGNOSTICS_COMMAND, () => {
             if (vscode.window.activeTextEditor) {
                 setReadyStatusBarItem(checkovInstallation?.actualVersion);
+                documentResults.delete(vscode.window.activeTextEditor.document.uri.toString());
                 applyDiagnostics(vscode.window.activeTextEditor.document, diagnostics, [], logger);
             }
         }),
@@ -134,15 +225,69 @@ export function activate(context: vscode.ExtensionContext): void {
             // Re-run the installation to get a fresh version
             vscode.commands.executeCommand(INSTALL_OR_UPDATE_CHECKOV_COMMAND);
         }),
+        vscode.commands.registerCommand(AUDIT_SUPPRESSIONS_COMMAND, async (): Promise<void> => {
+            if (!extensionReady) {
+                logger.warn('Tried to audit suppressions before checkov finished installing or updating. Please wait a few seconds and try again.');
+                vscode.window.showWarningMessage('Still installing/updating Checkov, please wait a few seconds and try again.', 'Got it');
+                return;
+            }
+            await auditWorkspaceSuppressions();
+        }),
+        vscode.commands.registerCommand(ACCEPT_RISK_COMMAND, async (uri: vscode.Uri, failedCheck: FailedCheckovCheck): Promise<void> => {
+            await acceptRisk(uri, failedCheck);
+        }),
+        vscode.commands.registerCommand(ADD_TO_CHECKOV_CONFIG_COMMAND, async (uri: vscode.Uri, key: CheckovConfigListKey, value: string, comment?: string): Promise<void> => {
+            await addToCheckovConfig(uri, key, value, comment);
+        }),
+        vscode.commands.registerCommand(REFRESH_CHECK_CATALOG_COMMAND, async (): Promise<void> => {
+            if (!extensionReady) {
+                vscode.window.showWarningMessage('Still installing/updating Checkov, please wait a few seconds and try again.', 'Got it');
+                return;
+            }
+            await loadCheckCatalog(true);
+        }),
+        vscode.commands.registerCommand(SEARCH_CHECK_CATALOG_COMMAND, async (): Promise<void> => {
+            const search = await vscode.window.showInputBox({
+                title: 'Search Checkov checks',
+                prompt: 'Words to find in the check ID, name, resource type, framework or severity',
+                value: checkCatalogTree.getSearch()
+            });
+            if (search !== undefined) searchCheckCatalog(search);
+        }),
+        vscode.commands.registerCommand(CLEAR_CHECK_CATALOG_SEARCH_COMMAND, () => searchCheckCatalog('')),
+        vscode.commands.registerCommand(ADD_CATALOG_CHECK_COMMAND, async (node: CatalogCheckNode): Promise<void> => {
+            await addCatalogCheckToConfig('check', node.check);
+        }),
+        vscode.commands.registerCommand(SKIP_CATALOG_CHECK_COMMAND, async (node: CatalogCheckNode): Promise<void> => {
+            await addCatalogCheckToConfig('skip-check', node.check);
+        }),
+        vscode.commands.registerCommand(OPEN_CATALOG_CHECK_GUIDELINE_COMMAND, (node: CatalogCheckNode) => {
+            if (node.check.guideline) vscode.env.openExternal(vscode.Uri.parse(node.check.guideline));
+        }),
+        vscode.commands.registerCommand(EXPORT_SARIF_COMMAND, async () => {
+            await exportSarif();
+        }),
+        vscode.commands.registerCommand(IMPORT_CI_RESULTS_COMMAND, async () => {
+            await importCiResults();
+        }),
+        vscode.commands.registerCommand(CLEAR_CI_RESULTS_COMMAND, () => {
+            ciDiagnostics.clear();
+            logger.info('Cleared imported CI results');
+        }),
         vscode.commands.registerCommand(REFRESH_SEVERITY_MAPPINGS, async () => {
             try {
+                if (isOfflineMode()) {
+                    await getSeverityProvider().loadOverrides();
+                    vscode.window.showInformationMessage('Offline mode is on: reloaded the severity overrides, the cached or bundled severity mappings are kept.');
+                    return;
+                }
                 logger.info('Manually refreshing severity mappings from GitHub');
                 vscode.window.showInformationMessage('Refreshing severity mappings...');
 
                 const provider = getSeverityProvider();
                 if (provider) {
                     await provider.forceRefresh(); // Force update
-                    logger.info('Severity mappings refreshed successfully');
+                    logger.info('Severity mappings refreshed successfully', { sources: provider.getStatistics().sources });
                     vscode.window.showInformationMessage('Severity mappings refreshed successfully');
                 } else {
                     logger.warn('Severity provider not initialized, initializing now');
@@ -163,21 +308,47 @@ export function activate(context: vscode.ExtensionContext): void {
             if (!extensionReady) return;
             if ((vscode.window.activeTextEditor &&
                 changeEvent.document.uri.toString() !== vscode.window.activeTextEditor.document.uri.toString())
-                || !isSupportedFileType(changeEvent.document.fileName))
+                || !isSupportedFileType(changeEvent.document.fileName)
+                || changeEvent.contentChanges.length === 0)
                 return;
-            vscode.commands.executeCommand(REMOVE_DIAGNOSTICS_COMMAND);
+            trackDiagnosticsThroughEdit(changeEvent);
+            if (shouldScanOnType()) {
+                scanBufferOnType(changeEvent.document);
+            }
+        }),
+        vscode.workspace.onDidOpenTextDocument(document => {
+            if (isCheckovConfigFile(document.fileName)) {
+                configDiagnostics.set(document.uri, validateConfigDocument(document));
+            }
+        }),
+        vscode.workspace.onDidCloseTextDocument(document => {
+            removeStagedDocument(document);
+            configDiagnostics.delete(document.uri);
         }),
         vscode.workspace.onDidSaveTextDocument(saveEvent => {
+            // config files are validated even before Checkov is ready, since validating does not run it
+            if (isCheckovConfigFile(saveEvent.fileName)) {
+                configDiagnostics.set(saveEvent.uri, validateConfigDocument(saveEvent));
+            }
             if (!extensionReady) return;
-            if ((vscode.window.activeTextEditor && saveEvent.uri.toString() !== vscode.window.activeTextEditor.document.uri.toString())
+            // when batching, files saved in the background are scanned along with the active one
+            if ((BATCH_SCAN_WINDOW <= 0 && vscode.window.activeTextEditor && saveEvent.uri.toString() !== vscode.window.activeTextEditor.document.uri.toString())
                 || !isSupportedFileType(saveEvent.fileName)) {
                 setReadyStatusBarItem(checkovInstallation?.actualVersion);
                 return;
             }
-            if ((saveEvent.fileName.endsWith('.checkov.yaml') || saveEvent.fileName.endsWith('.checkov.yml')) && shouldClearCacheUponConfigUpdate()) {
-                vscode.commands.executeCommand(CLEAR_RESULTS_CACHE);
+            if (isAcceptancesFile(saveEvent.fileName)) {
+                reapplyAcceptances(path.dirname(saveEvent.fileName));
+            }
+            if (isCheckovConfigFile(saveEvent.fileName) && shouldClearCacheUponConfigUpdate()) {
+                // A config file applies to every file below it, so only those results are stale
+                clearCachedResultsUnder(context, path.dirname(saveEvent.fileName), logger);
+            }
+            if (BATCH_SCAN_WINDOW > 0) {
+                scanBatcher.enqueue(saveEvent);
+            } else {
+                vscode.commands.executeCommand(RUN_FILE_SCAN_COMMAND);
             }
-            vscode.commands.executeCommand(RUN_FILE_SCAN_COMMAND);
         }),
         vscode.window.onDidChangeActiveTextEditor(changeViewEvent => {
             if (!extensionReady) return;
@@ -189,6 +360,11 @@ export function activate(context: vscode.ExtensionContext): void {
                 cancelAllActiveScans();
                 return;
             }
+            if (changeViewEvent && (changeViewEvent.document.isUntitled || changeViewEvent.document.isDirty) && shouldScanOnType()) {
+                // Checkov requires a file saved to disk, so the unsaved content is staged in a temp file
+                startBufferScan(changeViewEvent.document);
+                return;
+            }
             if (changeViewEvent && changeViewEvent.document.isUntitled) {
                 // Ignore untitled documents (e.g. untitled:Untitled-1, etc.), as Checkov requires a file saved to disk.
                 // Update the status bar to ready
@@ -202,7 +378,11 @@ export function activate(context: vscode.ExtensionContext): void {
             const cache_affected = [
                 'checkov-prismaless.skipFrameworks',
                 'checkov-prismaless.frameworks',
-                'checkov-prismaless.skipChecks'
+                'checkov-prismaless.skipChecks',
+                'checkov-prismaless.mergeParentConfigs',
+                'checkov-prismaless.useBaseline',
+                'checkov-prismaless.showBaselinedFindings',
+                'checkov-prismaless.compareBaseBranch'
             ];
             if (cache_affected.some(key => event.affectsConfiguration(key)) && shouldClearCacheUponConfigUpdate()) {
                 vscode.commands.executeCommand(CLEAR_RESULTS_CACHE);
@@ -217,10 +397,58 @@ export function activate(context: vscode.ExtensionContext): void {
         })
     );
 
+    // Offline mode and the container settings change how Checkov is found, so look for it again, even if it was missing before
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(event => {
+            const installation_affected = [
+                'checkov-prismaless.offline',
+                'checkov-prismaless.containerRuntime',
+                'checkov-prismaless.containerSocket',
+                'checkov-prismaless.containerImage'
+            ];
+            if (installation_affected.some(key => event.affectsConfiguration(key))) {
+                // workers of the previous runtime would not be found again
+                stopWorkerContainers(logger);
+                vscode.commands.executeCommand(INSTALL_OR_UPDATE_CHECKOV_COMMAND);
+            } else if (event.affectsConfiguration('checkov-prismaless.warmContainer') && !shouldUseWarmContainer()) {
+                stopWorkerContainers(logger);
+            }
+        }),
+        { dispose: () => stopWorkerContainers(logger) }
+    );
+
     // set code action provider
     context.subscriptions.push(
         vscode.languages.registerCodeActionsProvider([{ pattern: '**/*' }],
-            fixCodeActionProvider(context.workspaceState), { providedCodeActionKinds: providedCodeActionKinds })
+            fixCodeActionProvider(context.workspaceState, logger), { providedCodeActionKinds: providedCodeActionKinds })
+    );
+
+    // set hover provider
+    context.subscriptions.push(
+        vscode.languages.registerHoverProvider([{ pattern: '**/*' }], checkovHoverProvider(context.workspaceState))
+    );
+
+    // set config file language support
+    for (const document of vscode.workspace.textDocuments.filter(document => isCheckovConfigFile(document.fileName))) {
+        configDiagnostics.set(document.uri, validateConfigDocument(document));
+    }
+    context.subscriptions.push(
+        vscode.languages.registerCompletionItemProvider(CONFIG_DOCUMENT_SELECTOR, checkovConfigCompletionProvider(() => getKnownCheckNames()), ':', '-', ' ', ','),
+        vscode.languages.registerHoverProvider(CONFIG_DOCUMENT_SELECTOR, checkovConfigHoverProvider(() => getKnownCheckNames()))
+    );
+
+    // set code lens provider, refreshed whenever the shown findings or its setting change
+    const codeLensChangeEmitter = new vscode.EventEmitter<void>();
+    context.subscriptions.push(
+        codeLensChangeEmitter,
+        vscode.languages.onDidChangeDiagnostics(() => codeLensChangeEmitter.fire()),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('checkov-prismaless.showCodeLens')) codeLensChangeEmitter.fire();
+        }),
+        vscode.languages.registerCodeLensProvider([{ pattern: '**/*' }], checkovCodeLensProvider(context.workspaceState, codeLensChangeEmitter.event)),
+        vscode.commands.registerCommand(SHOW_RESOURCE_ACTIONS_COMMAND, showResourceActions(context.workspaceState)),
+        vscode.commands.registerCommand(FIX_RESOURCE_COMMAND, fixResource(context.workspaceState)),
+        vscode.commands.registerCommand(SUPPRESS_RESOURCE_COMMAND, suppressResource(context.workspaceState))
     );
 
     const startScan = async (fileUri?: vscode.Uri, useCache = false): Promise<void> => {
@@ -234,7 +462,104 @@ export function activate(context: vscode.ExtensionContext): void {
         if (!vscode.window.activeTextEditor) return;
 
         const documentUri = fileUri?.toString() || vscode.window.activeTextEditor.document.uri.toString();
+        const tokenSource = trackScan(documentUri);
 
+        if (useCache) {
+            const fileToScan = fileUri?.fsPath ?? vscode.window.activeTextEditor.document.fileName;
+            let hash: string;
+            try {
+                hash = getFileHash(fileToScan);
+            } catch (error) {
+                // getFileHash fails for unsaved files or output channels
+                logger.error('Error occurred while generating file hash', { error });
+                removeScanToken(documentUri);
+                return;
+            }
+            const cachedResults = getCachedResults(context, hash, vscode.window.activeTextEditor.document.fileName, logger);
+            if (cachedResults) {
+                logger.debug(`Found cached results for file: ${vscode.window.activeTextEditor.document.fileName}, hash: ${hash}`);
+                handleScanResults(fileToScan, vscode.window.activeTextEditor.document, context.workspaceState, cachedResults.results, logger);
+                removeScanToken(documentUri);
+                return;
+            } else {
+                logger.debug(`useCache is true, but did not find cached results for file: ${vscode.window.activeTextEditor.document.fileName}, hash: ${hash}`);
+            }
+        }
+
+        try {
+            await runScan(vscode.window.activeTextEditor, getRunScanOptions(tokenSource.token, fileUri));
+        } finally {
+            // Always clean up the token when scan completes (success or failure)
+            removeScanToken(documentUri);
+        }
+    };
+
+    /**
+     * Scans the current content of a document rather than the file on disk, by staging it in a temp file.
+     * Used for untitled documents and, when scanning as you type, for unsaved changes.
+     */
+    const startBufferScan = async (document: vscode.TextDocument): Promise<void> => {
+        const documentUri = document.uri.toString();
+        const tokenSource = trackScan(documentUri);
+        const documentVersion = document.version;
+        const content = document.getText();
+
+        try {
+            setSyncingStatusBarItem(checkovInstallation?.actualVersion, 'Checkov scanning');
+            const options = getRunScanOptions(tokenSource.token);
+            const stagedFilePath = stageDocument(document);
+            logger.info(`Starting to scan the unsaved content of ${documentUri}.`);
+
+            const settingsSource = document.isUntitled ? stagedFilePath : document.fileName;
+            const checkovResponse = await scanWithOptions(stagedFilePath, options, {}, settingsSource);
+            if (document.version !== documentVersion) {
+                logger.debug(`${documentUri} changed while it was being scanned, discarding the results`);
+                return;
+            }
+
+            const contentHash = getContentHash(content);
+            const failedChecks = document.isUntitled ? checkovResponse.results.failedChecks
+                : await prepareScanResults(document.fileName, checkovResponse.results.failedChecks, options, contentHash);
+            saveCheckovResult(context.workspaceState, failedChecks);
+            documentResults.set(documentUri, failedChecks);
+            scheduleAcceptanceExpiry();
+            applyDiagnostics(document, diagnostics, failedChecks, logger);
+            const newFailedChecks = failedChecks.filter(isOpenFinding);
+            findingsTree.setResults(document.uri, newFailedChecks);
+            (newFailedChecks.length > 0 ? setErrorStatusBarItem : setPassedStatusBarItem)(checkovInstallation?.actualVersion);
+            if (!document.isUntitled) {
+                // keyed by content, so these results are reused once the buffer is saved as-is
+                saveCachedResults(context, contentHash, document.fileName, failedChecks, logger);
+            }
+        } catch (error) {
+            if (tokenSource.token.isCancellationRequested) return;
+            setErrorStatusBarItem(checkovInstallation?.actualVersion);
+            logger.error('Error occurred while scanning unsaved content', { error });
+        } finally {
+            removeScanToken(documentUri);
+        }
+    };
+
+    /**
+     * Moves the findings of an edited document along with the edit, and flags those whose block changed as stale.
+     * The check map is saved again, so quick fixes keep matching the moved diagnostics.
+     */
+    const trackDiagnosticsThroughEdit = (changeEvent: vscode.TextDocumentChangeEvent): void => {
+        const documentUri = changeEvent.document.uri.toString();
+        const failedChecks = documentResults.get(documentUri);
+        if (!failedChecks || failedChecks.length === 0) return;
+
+        const shiftedChecks = shiftFailedChecks(failedChecks, changeEvent.contentChanges, changeEvent.document.lineCount);
+        documentResults.set(documentUri, shiftedChecks);
+        saveCheckovResult(context.workspaceState, shiftedChecks);
+        applyDiagnostics(changeEvent.document, diagnostics, shiftedChecks, logger);
+        findingsTree.setResults(changeEvent.document.uri, shiftedChecks.filter(isOpenFinding));
+    };
+
+    /**
+     * Cancels any running scan of the document and tracks a new one, enforcing the timeout and the concurrent scans limit
+     */
+    const trackScan = (documentUri: string): vscode.CancellationTokenSource => {
         // Cancel any existing scan for this document
         cancelScanForDocument(documentUri);
 
@@ -269,53 +594,562 @@ export function activate(context: vscode.ExtensionContext): void {
             }
         }
 
-        if (useCache) {
-            const fileToScan = fileUri?.fsPath ?? vscode.window.activeTextEditor.document.fileName;
-            let hash: string;
+        return tokenSource;
+    };
+
+    /**
+     * Scans every workspace folder in directory mode and spreads the results over the affected files
+     */
+    const startWorkspaceScan = async (): Promise<void> => {
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        if (!workspaceFolders || workspaceFolders.length === 0) {
+            vscode.window.showWarningMessage('Open a folder to scan the workspace with Checkov.');
+            return;
+        }
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Checkov: Scanning workspace',
+            cancellable: true
+        }, async (progress, cancelToken) => {
+            setSyncingStatusBarItem(checkovInstallation?.actualVersion, 'Checkov scanning workspace');
+            let failedChecksCount = 0;
+            for (const folder of workspaceFolders) {
+                if (cancelToken.isCancellationRequested) return;
+                progress.report({ message: folder.name });
+                logger.info(`Starting to scan workspace folder ${folder.uri.fsPath}.`);
+                try {
+                    const checkovResponse = await scanWithOptions(folder.uri.fsPath, getRunScanOptions(cancelToken));
+                    recordSkippedChecks(folder.uri.fsPath, checkovResponse.results.skippedChecks || []);
+                    failedChecksCount += await applyWorkspaceScanResults(folder.uri.fsPath, checkovResponse.results.failedChecks, getRunScanOptions(cancelToken));
+                } catch (error) {
+                    if (cancelToken.isCancellationRequested) {
+                        setReadyStatusBarItem(checkovInstallation?.actualVersion);
+                        return;
+                    }
+
+                    setErrorStatusBarItem(checkovInstallation?.actualVersion);
+                    logger.error(`Error occurred while scanning workspace folder ${folder.uri.fsPath}`, { error });
+                    if (!shouldDisableErrorMessage()) {
+                        showContactUsDetails(context.logUri, logFileName);
+                    }
+                    return;
+                }
+            }
+            (failedChecksCount > 0 ? setErrorStatusBarItem : setPassedStatusBarItem)(checkovInstallation?.actualVersion);
+            logger.info(`Workspace scan finished with ${failedChecksCount} failed checks.`);
+        });
+    };
+
+    /**
+     * Applies the results of a directory scan to every affected file, and clears files under the folder that no longer fail
+     */
+    const applyWorkspaceScanResults = async (folderPath: string, failedChecks: FailedCheckovCheck[], options: RunScanOptions): Promise<number> => {
+        const checksByFile = getFailedChecksByFile(folderPath, failedChecks, logger);
+
+        const resolvedUris: vscode.Uri[] = [];
+        diagnostics.forEach(uri => {
+            if (isPathInside(folderPath, uri.fsPath) && !checksByFile.has(uri.fsPath)) resolvedUris.push(uri);
+        });
+        for (const uri of resolvedUris) {
+            diagnostics.delete(uri);
+            documentResults.delete(uri.toString());
+            findingsTree.setResults(uri, []);
+        }
+
+        let failedChecksCount = 0;
+        for (const [filePath, scannedChecks] of checksByFile) {
             try {
-                hash = getFileHash(fileToScan);
+                const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+                const fileFailedChecks = await prepareScanResults(filePath, scannedChecks, options);
+                const newFailedChecks = fileFailedChecks.filter(isOpenFinding);
+                applyDiagnostics(document, diagnostics, fileFailedChecks, logger);
+                documentResults.set(document.uri.toString(), fileFailedChecks);
+                scheduleAcceptanceExpiry();
+                findingsTree.setResults(document.uri, newFailedChecks);
+                // the check map only holds the results of the active document
+                if (document === vscode.window.activeTextEditor?.document) {
+                    saveCheckovResult(context.workspaceState, fileFailedChecks);
+                }
+                saveCachedResults(context, getFileHash(filePath), document.fileName, fileFailedChecks, logger);
+                failedChecksCount += newFailedChecks.length;
             } catch (error) {
-                // getFileHash fails for unsaved files or output channels
-                logger.error('Error occurred while generating file hash', { error });
-                removeScanToken(documentUri);
-                return;
+                logger.warn(`Failed to apply workspace scan results to ${filePath}`, { error });
             }
-            const cachedResults = getCachedResults(context, hash, vscode.window.activeTextEditor.document.fileName, logger);
-            if (cachedResults) {
-                logger.debug(`Found cached results for file: ${vscode.window.activeTextEditor.document.fileName}, hash: ${hash}`);
-                handleScanResults(fileToScan, vscode.window.activeTextEditor, context.workspaceState, cachedResults.results, logger);
-                removeScanToken(documentUri);
+        }
+        return failedChecksCount;
+    };
+
+    const getRunScanOptions = (cancelToken: vscode.CancellationToken, fileUri?: vscode.Uri): RunScanOptions => ({
+        certPath: getPathToCert(),
+        useBcIds: getUseBcIds(),
+        debugLogs: getUseDebugLogs(),
+        noCertVerify: getNoCertVerify(),
+        cancelToken,
+        externalChecksDir: getExternalChecksDir(),
+        fileUri,
+        skipFrameworks: getSkipFrameworks(),
+        frameworks: getFrameworks(),
+        skipChecks: getSkipChecks()
+    });
+
+    /**
+     * Runs Checkov on a file or directory, or on several files at once. The config file and baseline are resolved from `settingsSource`,
+     * which differs from the scan target when scanning a staged copy of a file.
+     */
+    const scanWithOptions = (scanTarget: string | string[], options: RunScanOptions, runOptions: CheckovRunOptions = {}, settingsSource = Array.isArray(scanTarget) ? scanTarget[0] : scanTarget) => {
+        if (!checkovInstallation) {
+            return Promise.reject(new Error('Checkov is not installed'));
+        }
+        const configPath = getConfigFilePath(logger, settingsSource);
+        // Baselined findings are only left in the output when they are to be shown as hints
+        const baselinePath = shouldUseBaseline() && !shouldShowBaselinedFindings() && !runOptions.createBaseline ? getBaselineFilePath(logger, settingsSource) : undefined;
+        return runCheckovScan(logger, checkovInstallation, extensionVersion, scanTarget, options.certPath, options.useBcIds, options.debugLogs, options.noCertVerify, options.cancelToken, configPath, options.externalChecksDir, options.skipFrameworks, options.frameworks, options.skipChecks, { baselinePath, offline: isOfflineMode(), hardened: getContainerHardening(), warmContainer: shouldUseWarmContainer(), ...runOptions });
+    };
+
+    /**
+     * Applies the "new findings only" filters to the results of a file before they are shown:
+     * findings that already exist on the base branch are dropped, and findings that are part of the baseline
+     * are flagged when they are shown as hints rather than filtered out by Checkov
+     */
+    const prepareScanResults = async (filePath: string, failedChecks: FailedCheckovCheck[], options: RunScanOptions, contentHash?: string): Promise<FailedCheckovCheck[]> => {
+        const branchFailedChecks = await getFailedChecksNewOnBranch(filePath, failedChecks, options, contentHash);
+        const baselineFailedChecks = shouldUseBaseline() && shouldShowBaselinedFindings() ? markBaselinedChecks(logger, filePath, branchFailedChecks) : branchFailedChecks;
+        return markAcceptedChecks(logger, filePath, baselineFailedChecks);
+    };
+
+    /**
+     * Scans the merge-base version of the file (cached by its hash) and keeps only the findings it does not have
+     */
+    const getFailedChecksNewOnBranch = async (filePath: string, failedChecks: FailedCheckovCheck[], options: RunScanOptions, contentHash = getFileHash(filePath)): Promise<FailedCheckovCheck[]> => {
+        const baseBranch = getCompareBaseBranch();
+        if (!baseBranch || failedChecks.length === 0) return failedChecks;
+
+        const baseContent = await getMergeBaseFileContent(logger, filePath, baseBranch);
+        if (baseContent === null) {
+            // the file is new on this branch (or not under git), so every finding is new
+            return failedChecks;
+        }
+
+        const baseHash = getContentHash(baseContent);
+        if (baseHash === contentHash) {
+            logger.debug(`${filePath} is unchanged since the merge-base with ${baseBranch}, so none of its findings are new`);
+            return [];
+        }
+
+        const baseCacheKey = `${filePath}${MERGE_BASE_CACHE_SUFFIX}`;
+        let baseFailedChecks = getCachedResults(context, baseHash, baseCacheKey, logger)?.results;
+        if (!baseFailedChecks) {
+            try {
+                const stagedFilePath = stageMergeBaseFile(filePath, baseContent, baseHash);
+                const baseResponse = await scanWithOptions(stagedFilePath, options, {}, filePath);
+                baseFailedChecks = baseResponse.results.failedChecks;
+                saveCachedResults(context, baseHash, baseCacheKey, baseFailedChecks, logger);
+            } catch (error) {
+                if (options.cancelToken.isCancellationRequested) throw error;
+                logger.warn(`Failed to scan the merge-base version of ${filePath}, showing all findings`, { error });
+                return failedChecks;
+            }
+        }
+
+        const newFailedChecks = getFailedChecksNotInBase(failedChecks, baseFailedChecks);
+        logger.debug(`${newFailedChecks.length} of ${failedChecks.length} findings in ${filePath} are new compared with ${baseBranch}`);
+        return newFailedChecks;
+    };
+
+    /**
+     * Writes a `.checkov.baseline` into every workspace folder, so that later scans only report new findings
+     */
+    const createBaseline = async (): Promise<void> => {
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        if (!workspaceFolders || workspaceFolders.length === 0) {
+            vscode.window.showWarningMessage('Open a folder to create a Checkov baseline.');
+            return;
+        }
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Checkov: Creating baseline',
+            cancellable: true
+        }, async (progress, cancelToken) => {
+            for (const folder of workspaceFolders) {
+                if (cancelToken.isCancellationRequested) return;
+                progress.report({ message: folder.name });
+                try {
+                    await scanWithOptions(folder.uri.fsPath, getRunScanOptions(cancelToken), { createBaseline: true });
+                    logger.info(`Created baseline for workspace folder ${folder.uri.fsPath}`);
+                } catch (error) {
+                    if (cancelToken.isCancellationRequested) return;
+                    logger.error(`Failed to create baseline for workspace folder ${folder.uri.fsPath}`, { error });
+                    vscode.window.showErrorMessage(`Failed to create a Checkov baseline for ${folder.name}. Check logs for details.`);
+                    return;
+                }
+            }
+            clearCache(context, logger);
+            const enableBaseline = shouldUseBaseline() ? undefined : await vscode.window.showInformationMessage('Checkov baseline created. Use it for every scan?', 'Use baseline');
+            if (enableBaseline) {
+                await vscode.workspace.getConfiguration('checkov-prismaless').update('useBaseline', true, vscode.ConfigurationTarget.Workspace);
+            }
+        });
+    };
+
+    /**
+     * Applies every available fix of the active document as one edit, then rescans its content to confirm the findings cleared
+     */
+    const fixAll = async (): Promise<void> => {
+        const document = vscode.window.activeTextEditor?.document;
+        if (!document) {
+            vscode.window.showWarningMessage('Open a file to apply its Checkov fixes.');
+            return;
+        }
+
+        const { edit, applied, skipped } = createFixAllEdit(context.workspaceState, document);
+        if (applied.length === 0) {
+            vscode.window.showInformationMessage('No Checkov fixes are available for this file.');
+            return;
+        }
+        if (!await vscode.workspace.applyEdit(edit)) {
+            logger.warn(`Failed to apply ${applied.length} fixes to ${document.fileName}`);
+            vscode.window.showErrorMessage('Checkov fixes could not be applied.');
+            return;
+        }
+        logger.info(`Applied ${applied.length} fixes to ${document.fileName}, skipped ${skipped.length} overlapping fixes.`);
+
+        await startBufferScan(document);
+        const skippedMessage = skipped.length > 0 ? ` ${skipped.length} overlapping fix(es) were not applied, run the command again to apply them.` : '';
+        // the fixed blocks were edited, so their findings stay flagged as stale until the rescan replaced them
+        const remainingChecks = documentResults.get(document.uri.toString()) || [];
+        if (remainingChecks.some(failedCheck => failedCheck.stale)) {
+            vscode.window.showInformationMessage(`Applied ${applied.length} Checkov fix(es). Save the file to rescan it.${skippedMessage}`);
+            return;
+        }
+        const remainingKeys = new Set(remainingChecks.map(createCheckovIdentityKey));
+        const uncleared = applied.filter(failedCheck => remainingKeys.has(createCheckovIdentityKey(failedCheck)));
+        if (uncleared.length > 0) {
+            vscode.window.showWarningMessage(`Applied ${applied.length} Checkov fix(es), but ${uncleared.length} finding(s) were not cleared: ${uncleared.map(failedCheck => failedCheck.checkId).join(', ')}.${skippedMessage}`);
+        } else {
+            vscode.window.showInformationMessage(`Applied ${applied.length} Checkov fix(es).${skippedMessage}`);
+        }
+    };
+
+    // Check names by ID, from every result at hand
+    const getKnownCheckNames = (): Map<string, string> => {
+        const failedChecks = [...getAllCachedResults(context, logger).flatMap(entry => entry.results), ...[...documentResults.values()].flat()];
+        return new Map([
+            ...checkCatalogTree.getChecks().map((check): [string, string] => [check.checkId, check.name]),
+            ...failedChecks.map((failedCheck): [string, string] => [failedCheck.checkId, failedCheck.checkName])
+        ]);
+    };
+
+    /**
+     * Records the checks suppressed in a scanned file or directory, replacing those of any earlier scan
+     */
+    const recordSkippedChecks = (scanRoot: string, skippedChecks: FailedCheckovCheck[]): void => {
+        for (const filePath of [...skippedChecksByFile.keys()]) {
+            if (filePath === scanRoot || isPathInside(scanRoot, filePath)) skippedChecksByFile.delete(filePath);
+        }
+        skippedChecksScanRoots.add(scanRoot);
+        const skippedChecksByScannedFile = isDirectory(scanRoot) ? getFailedChecksByFile(scanRoot, skippedChecks, logger) : new Map([[scanRoot, skippedChecks]]);
+        for (const [filePath, fileSkippedChecks] of skippedChecksByScannedFile) {
+            skippedChecksByFile.set(filePath, fileSkippedChecks);
+        }
+    };
+
+    // Files that were never scanned have no known skipped checks, so their suppressions cannot be stale yet
+    const getSkippedChecks = (filePath: string): FailedCheckovCheck[] | undefined => skippedChecksByFile.get(filePath)
+        ?? ([...skippedChecksScanRoots].some(scanRoot => scanRoot === filePath || isPathInside(scanRoot, filePath)) ? [] : undefined);
+
+    const auditFileSuppressions = (uri: vscode.Uri, content: string): void => {
+        const scannedCheckIds = new Set([...skippedChecksByFile.values()].flat().map(skippedCheck => skippedCheck.checkId));
+        const suppressions = auditSuppressions(findSuppressions(uri.fsPath, content), getSkippedChecks(uri.fsPath), scannedCheckIds);
+        suppressionsTree.setSuppressions(uri, suppressions);
+        applySuppressionDiagnostics(uri, suppressionDiagnostics, suppressions);
+    };
+
+    /**
+     * Scans the workspace to learn which suppressions still match a finding, then lists every suppression in the workspace
+     */
+    const auditWorkspaceSuppressions = async (): Promise<void> => {
+        await startWorkspaceScan();
+        const files = await vscode.workspace.findFiles(SUPPRESSION_FILES_GLOB, SUPPRESSION_FILES_EXCLUDE_GLOB, MAX_SUPPRESSION_FILES);
+        if (files.length === MAX_SUPPRESSION_FILES) {
+            logger.warn(`Only auditing the suppressions of the first ${MAX_SUPPRESSION_FILES} files in the workspace`);
+        }
+
+        suppressionsTree.clear();
+        suppressionDiagnostics.clear();
+        for (const uri of files.filter(file => isSupportedFileType(file.fsPath))) {
+            try {
+                auditFileSuppressions(uri, new TextDecoder().decode(await vscode.workspace.fs.readFile(uri)));
+            } catch (error) {
+                logger.warn(`Failed to read suppressions of ${uri.fsPath}`, { error });
+            }
+        }
+        suppressionsAudited = true;
+
+        const suppressions = files.flatMap(uri => suppressionsTree.getSuppressions(uri));
+        const withIssues = suppressions.filter(suppression => suppression.issues.length > 0).length;
+        logger.info(`Found ${suppressions.length} suppressions in the workspace, ${withIssues} with issues.`);
+        vscode.window.showInformationMessage(`Checkov: found ${suppressions.length} suppressions, ${withIssues} with issues.`);
+    };
+
+    /**
+     * Adds a value to a list of the nearest config file of the file or folder, creating one in the workspace folder if there is none,
+     * then rescans the file with the updated config
+     */
+    const addToCheckovConfig = async (uri: vscode.Uri, key: CheckovConfigListKey, value: string, comment?: string): Promise<void> => {
+        const workspacePath = getWorkspacePath(logger, uri.fsPath);
+        const configPath = getNearestConfigFilePath(logger, uri.fsPath) || (workspacePath && path.join(workspacePath, '.checkov.yaml'));
+        if (!configPath) return;
+
+        try {
+            addToConfigList(logger, configPath, key, value, comment);
+        } catch (error) {
+            logger.error(`Failed to update config file ${configPath}`, { error });
+            vscode.window.showErrorMessage(`Failed to update ${path.basename(configPath)}: ${error instanceof Error ? error.message : error}`);
+            return;
+        }
+        // A config file applies to every file below it, so only those results are stale
+        clearCachedResultsUnder(context, path.dirname(configPath), logger);
+        if (!isDirectory(uri.fsPath)) {
+            vscode.commands.executeCommand(RUN_FILE_SCAN_COMMAND, uri);
+        }
+
+        const choice = await vscode.window.showInformationMessage(`Added ${value} to ${key} in ${configPath}`, 'Open config');
+        if (choice) {
+            await vscode.window.showTextDocument(vscode.Uri.file(configPath));
+        }
+    };
+
+    /**
+     * Fills the check catalog from `checkov --list`, which takes a while, so the list is cached for each Checkov version
+     */
+    const loadCheckCatalog = async (refresh = false): Promise<void> => {
+        if (!checkovInstallation) return;
+        const version = checkovInstallation.actualVersion || checkovInstallation.version || 'unknown';
+        const cachedCatalog = context.globalState.get<{ version: string, checks: CatalogCheck[] }>(checkCatalogKey);
+        if (!refresh && cachedCatalog?.version === version) {
+            checkCatalogVersion = checkovInstallation.version;
+            checkCatalogTree.setChecks(cachedCatalog.checks);
+            return;
+        }
+
+        const installation = checkovInstallation;
+        await vscode.window.withProgress({ location: { viewId: CHECK_CATALOG_VIEW_ID }, title: 'Listing Checkov checks' }, async () => {
+            try {
+                const checks = await listCheckovChecks(logger, installation);
+                await context.globalState.update(checkCatalogKey, { version, checks });
+                checkCatalogVersion = installation.version;
+                checkCatalogTree.setChecks(checks);
+                checkCatalogView.message = undefined;
+            } catch (error) {
+                logger.error('Failed to list the Checkov checks', { error });
+                checkCatalogView.message = 'Failed to list the Checkov checks, see the Checkov log for details.';
+            }
+        });
+    };
+
+    const searchCheckCatalog = (search: string): void => {
+        checkCatalogTree.setSearch(search);
+        const matching = checkCatalogTree.getMatchingChecks().length;
+        checkCatalogView.message = checkCatalogTree.getSearch() ? `${matching} checks matching '${checkCatalogTree.getSearch()}'` : undefined;
+    };
+
+    // Catalog checks go to the config of the file being edited, or of the first workspace folder
+    const addCatalogCheckToConfig = async (key: CheckovConfigListKey, check: CatalogCheck): Promise<void> => {
+        const activeUri = vscode.window.activeTextEditor?.document.uri;
+        const uri = activeUri?.scheme === 'file' && vscode.workspace.getWorkspaceFolder(activeUri) ? activeUri : vscode.workspace.workspaceFolders?.[0]?.uri;
+        if (!uri) {
+            vscode.window.showWarningMessage('Open a workspace folder to add checks to its Checkov config.');
+            return;
+        }
+        await addToCheckovConfig(uri, key, check.checkId);
+    };
+
+    const validateExpiryDate = (value: string): string | undefined => {
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(new Date(value).getTime())) return 'Enter a date as YYYY-MM-DD';
+        return isAcceptanceExpired({ owner: '', expires: value }) ? 'The date must not be in the past' : undefined;
+    };
+
+    /**
+     * Records a time-boxed acceptance of the risk of a finding, which hides it until the acceptance expires
+     */
+    const acceptRisk = async (uri: vscode.Uri, failedCheck: FailedCheckovCheck): Promise<void> => {
+        const defaultExpiry = new Date(Date.now() + 90 * 24 * 60 * 60 * 1000).toISOString().substring(0, 10);
+        const expires = await vscode.window.showInputBox({
+            title: `Accept risk of ${failedCheck.checkId} on ${failedCheck.resource} until…`,
+            prompt: 'Expiry date (YYYY-MM-DD); the finding is shown again after this day',
+            value: defaultExpiry,
+            validateInput: validateExpiryDate
+        });
+        if (!expires) return;
+        const owner = await vscode.window.showInputBox({
+            title: `Accept risk of ${failedCheck.checkId} on ${failedCheck.resource} until ${expires}`,
+            prompt: 'Owner of the accepted risk',
+            validateInput: value => value.trim() ? undefined : 'An owner is required'
+        });
+        if (!owner) return;
+        const reason = await vscode.window.showInputBox({
+            title: `Accept risk of ${failedCheck.checkId} on ${failedCheck.resource} until ${expires}`,
+            prompt: 'Reason (optional)'
+        });
+        if (reason === undefined) return;
+
+        try {
+            recordAcceptance(logger, uri.fsPath, failedCheck, { owner: owner.trim(), expires, reason: reason.trim() || undefined });
+        } catch (error) {
+            logger.error('Failed to record the risk acceptance', { error });
+            vscode.window.showErrorMessage(`Failed to record the risk acceptance: ${error instanceof Error ? error.message : error}`);
+            return;
+        }
+        const workspacePath = getWorkspacePath(logger, uri.fsPath);
+        if (workspacePath) {
+            await reapplyAcceptances(workspacePath);
+        }
+    };
+
+    /**
+     * Re-reads the acceptances of every file with results under the folder, and drops the cached results there,
+     * which were marked with the previous acceptances
+     */
+    const reapplyAcceptances = async (folderPath: string): Promise<void> => {
+        clearCachedResultsUnder(context, folderPath, logger);
+        for (const [documentUri, failedChecks] of [...documentResults]) {
+            const uri = vscode.Uri.parse(documentUri);
+            if (uri.scheme !== 'file' || !isPathInside(folderPath, uri.fsPath)) continue;
+            try {
+                const document = await vscode.workspace.openTextDocument(uri);
+                const markedChecks = markAcceptedChecks(logger, uri.fsPath, failedChecks);
+                documentResults.set(documentUri, markedChecks);
+                applyDiagnostics(document, diagnostics, markedChecks, logger);
+                findingsTree.setResults(uri, markedChecks.filter(isOpenFinding));
+                if (vscode.window.activeTextEditor?.document.uri.toString() === documentUri) {
+                    saveCheckovResult(context.workspaceState, markedChecks);
+                    (markedChecks.some(isOpenFinding) ? setErrorStatusBarItem : setPassedStatusBarItem)(checkovInstallation?.actualVersion);
+                }
+            } catch (error) {
+                logger.warn(`Failed to apply risk acceptances to ${uri.fsPath}`, { error });
+            }
+        }
+        scheduleAcceptanceExpiry();
+    };
+
+    /**
+     * Shows the findings of open documents again once their acceptance expires, without waiting for the next scan
+     */
+    const scheduleAcceptanceExpiry = (): void => {
+        clearTimeout(acceptanceExpiryTimer);
+        const nextExpiry = getNextAcceptanceExpiry([...documentResults.values()].flat());
+        if (!nextExpiry) return;
+
+        // longer timeouts than this overflow and fire at once, so far away expiries are waited for in steps
+        const delay = Math.min(nextExpiry.getTime() - Date.now() + 1, MAX_TIMEOUT_DELAY);
+        acceptanceExpiryTimer = setTimeout(async () => {
+            for (const [documentUri, failedChecks] of [...documentResults]) {
+                const uri = vscode.Uri.parse(documentUri);
+                try {
+                    const document = await vscode.workspace.openTextDocument(uri);
+                    applyDiagnostics(document, diagnostics, failedChecks, logger);
+                    findingsTree.setResults(uri, failedChecks.filter(isOpenFinding));
+                    if (vscode.window.activeTextEditor?.document === document) {
+                        (failedChecks.some(isOpenFinding) ? setErrorStatusBarItem : setPassedStatusBarItem)(checkovInstallation?.actualVersion);
+                    }
+                } catch (error) {
+                    logger.warn(`Failed to show the findings of expired risk acceptances in ${uri.fsPath}`, { error });
+                }
+            }
+            scheduleAcceptanceExpiry();
+        }, delay);
+    };
+
+    const redrawSeverities = async (): Promise<void> => {
+        for (const [documentUri, failedChecks] of [...documentResults]) {
+            const uri = vscode.Uri.parse(documentUri);
+            try {
+                const document = await vscode.workspace.openTextDocument(uri);
+                applyDiagnostics(document, diagnostics, failedChecks, logger);
+            } catch (error) {
+                logger.warn(`Failed to redraw the findings of ${uri.fsPath}`, { error });
+            }
+        }
+        findingsTree.refresh();
+        checkCatalogTree.refresh();
+    };
+
+    /**
+     * Exports the cached results of the active file, or of every cached file, to a SARIF 2.1.0 file
+     */
+    const exportSarif = async (): Promise<void> => {
+        const activeDocument = vscode.window.activeTextEditor?.document;
+        const activeFileName = activeDocument && !activeDocument.isUntitled ? activeDocument.fileName : undefined;
+        const scopes = [
+            ...(activeFileName ? [{ label: 'Active file', description: path.basename(activeFileName), allFiles: false }] : []),
+            { label: 'All files with cached results', description: undefined, allFiles: true }
+        ];
+        const scope = scopes.length > 1 ? await vscode.window.showQuickPick(scopes, { placeHolder: 'Which results should be exported?' }) : scopes[0];
+        if (!scope) return;
+
+        let filesResults: FileResults[];
+        if (scope.allFiles) {
+            filesResults = getAllCachedResults(context, logger).map(entry => ({ filePath: entry.filename, failedChecks: entry.results }));
+        } else {
+            const activeFileResults = activeFileName ? getCachedResults(context, getFileHash(activeFileName), activeFileName, logger) : undefined;
+            if (!activeFileName || !activeFileResults) {
+                vscode.window.showWarningMessage('The active file has no up-to-date Checkov results. Save the file to scan it, then try again.');
                 return;
-            } else {
-                logger.debug(`useCache is true, but did not find cached results for file: ${vscode.window.activeTextEditor.document.fileName}, hash: ${hash}`);
             }
+            filesResults = [{ filePath: activeFileName, failedChecks: activeFileResults.results }];
         }
 
-        const certPath = getPathToCert();
-        const useBcIds = getUseBcIds();
-        const debugLogs = getUseDebugLogs();
-        const noCertVerify = getNoCertVerify();
-        const externalChecksDir = getExternalChecksDir();
-        const skipFrameworks = getSkipFrameworks();
-        const skipChecks = getSkipChecks();
-        const frameworks = getFrameworks();
+        const workspacePath = getWorkspacePath(logger, activeFileName);
+        const targetUri = await vscode.window.showSaveDialog({
+            defaultUri: workspacePath ? vscode.Uri.file(path.join(workspacePath, 'results_checkov.sarif')) : undefined,
+            filters: { 'SARIF': ['sarif', 'json'] },
+            saveLabel: 'Export'
+        });
+        if (!targetUri) return;
 
         try {
-            await runScan(vscode.window.activeTextEditor, {
-                certPath,
-                useBcIds,
-                debugLogs,
-                noCertVerify,
-                cancelToken: tokenSource.token,
-                externalChecksDir,
-                fileUri,
-                skipFrameworks,
-                frameworks,
-                skipChecks
-            });
-        } finally {
-            // Always clean up the token when scan completes (success or failure)
-            removeScanToken(documentUri);
+            const sarifLog = createSarifLog(logger, filesResults, checkovInstallation?.actualVersion);
+            await vscode.workspace.fs.writeFile(targetUri, Buffer.from(JSON.stringify(sarifLog, null, 2), 'utf8'));
+            const resultsCount = sarifLog.runs[0].results?.length || 0;
+            logger.info(`Exported ${resultsCount} results from ${filesResults.length} files to ${targetUri.fsPath}`);
+            vscode.window.showInformationMessage(`Exported ${resultsCount} Checkov results to ${path.basename(targetUri.fsPath)}`);
+        } catch (error) {
+            logger.error('Failed to export SARIF results', { error });
+            vscode.window.showErrorMessage('Failed to export SARIF results. Check logs for details.');
+        }
+    };
+
+    /**
+     * Loads a SARIF or JSON result artifact from CI and shows it as diagnostics with their own source label
+     */
+    const importCiResults = async (): Promise<void> => {
+        const [resultsUri] = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { 'Checkov results': ['sarif', 'json'] },
+            openLabel: 'Import'
+        }) || [];
+        if (!resultsUri) return;
+
+        try {
+            const failedChecks = loadCiResults(logger, resultsUri.fsPath, getUseBcIds());
+            const checksByFile = getCiChecksByFile(logger, failedChecks);
+
+            ciDiagnostics.clear();
+            for (const [filePath, fileFailedChecks] of checksByFile) {
+                try {
+                    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+                    applyDiagnostics(document, ciDiagnostics, fileFailedChecks, logger, CI_DIAGNOSTIC_SOURCE);
+                } catch (error) {
+                    logger.warn(`Failed to apply CI results to ${filePath}`, { error });
+                }
+            }
+            logger.info(`Imported ${failedChecks.length} CI results from ${resultsUri.fsPath} into ${checksByFile.size} files`);
+            vscode.window.showInformationMessage(`Imported ${failedChecks.length} Checkov CI results into ${checksByFile.size} files`);
+        } catch (error) {
+            logger.error(`Failed to import CI results from ${resultsUri.fsPath}`, { error });
+            vscode.window.showErrorMessage('Failed to import Checkov CI results. Make sure the file is a Checkov SARIF or JSON report.');
         }
     };
 
@@ -368,6 +1202,81 @@ export function activate(context: vscode.ExtensionContext): void {
         activeScanTokens.length = 0;
     };
 
+    /**
+     * Files can only share a Checkov run when they share the mount root of the container, their config file and their baseline
+     */
+    const getScanBatchKey = (document: vscode.TextDocument): string => {
+        const [workspaceRoot] = getDockerPathParams(getWorkspacePath(logger, document.fileName) || undefined, document.fileName);
+        const baselinePath = shouldUseBaseline() ? getBaselineFilePath(logger, document.fileName) : undefined;
+        return JSON.stringify([workspaceRoot || path.dirname(document.fileName), getConfigFilePath(logger, document.fileName), baselinePath]);
+    };
+
+    /**
+     * Scans saved documents in a single Checkov run and shows the results of each in its own document
+     */
+    const scanDocuments = async (documents: vscode.TextDocument[]): Promise<void> => {
+        if (!checkovInstallation) {
+            logger.error('Checkov is not installed, aborting scan.');
+            return;
+        }
+
+        const batchUri = documents.map(document => document.uri.toString()).join(',');
+        documents.forEach(document => cancelScanForDocument(document.uri.toString()));
+        const tokenSource = trackScan(batchUri);
+        const options = getRunScanOptions(tokenSource.token);
+        try {
+            const documentsToScan = documents.filter(document => {
+                let cachedResults;
+                try {
+                    cachedResults = getCachedResults(context, getFileHash(document.fileName), document.fileName, logger);
+                } catch (error) {
+                    logger.error('Error occurred while generating file hash', { error });
+                    return false;
+                }
+                if (cachedResults) {
+                    logger.debug(`Found cached results for file: ${document.fileName}`);
+                    handleScanResults(document.fileName, document, context.workspaceState, cachedResults.results, logger);
+                }
+                return !cachedResults;
+            });
+            if (documentsToScan.length === 0) return;
+
+            const filePaths = documentsToScan.map(document => document.fileName);
+            logger.info(`Starting to scan ${filePaths.length} files in one run.`);
+            setSyncingStatusBarItem(checkovInstallation?.actualVersion, 'Checkov scanning');
+            const checkovResponse = await scanWithOptions(filePaths, options);
+            const responses = splitCheckovResponse(logger, checkovResponse, filePaths);
+            for (const document of documentsToScan) {
+                const { results } = responses.get(document.fileName) as CheckovResponse;
+                recordSkippedChecks(document.fileName, results.skippedChecks || []);
+                if (suppressionsAudited) {
+                    auditFileSuppressions(document.uri, document.getText());
+                }
+                handleScanResults(document.fileName, document, context.workspaceState, await prepareScanResults(document.fileName, results.failedChecks, options), logger);
+            }
+            if (vscode.window.activeTextEditor && !documentsToScan.includes(vscode.window.activeTextEditor.document)) {
+                setReadyStatusBarItem(checkovInstallation?.actualVersion);
+            }
+        } catch (error) {
+            if (options.cancelToken.isCancellationRequested) {
+                return;
+            }
+
+            setErrorStatusBarItem(checkovInstallation?.actualVersion);
+            logger.error('Error occurred while running a checkov scan', { error });
+            if (!shouldDisableErrorMessage()) {
+                showContactUsDetails(context.logUri, logFileName);
+            }
+        } finally {
+            removeScanToken(batchUri);
+        }
+    };
+
+    const scanBatcher = createScanBatcher(BATCH_SCAN_WINDOW, getScanBatchKey, scanDocuments);
+    context.subscriptions.push(scanBatcher);
+
+    const scanBufferOnType = debounce((document: vscode.TextDocument) => startBufferScan(document), SCAN_ON_TYPE_DELAY, {});
+
     const runScan = debounce(async (
         editor: vscode.TextEditor,
         options: RunScanOptions
@@ -375,14 +1284,18 @@ export function activate(context: vscode.ExtensionContext): void {
         try {
             setSyncingStatusBarItem(checkovInstallation?.actualVersion, 'Checkov scanning');
             const filePath = options.fileUri ? options.fileUri.fsPath : editor.document.fileName;
-            const configPath = getConfigFilePath(logger);
 
             if (!checkovInstallation) {
                 logger.error('Checkov is not installed, aborting scan.');
                 return;
             }
 
-            const checkovResponse = await runCheckovScan(logger, checkovInstallation, extensionVersion, filePath, options.certPath, options.useBcIds, options.debugLogs, options.noCertVerify, options.cancelToken, configPath, options.externalChecksDir, options.skipFrameworks, options.frameworks, options.skipChecks);            handleScanResults(filePath, editor, context.workspaceState, checkovResponse.results.failedChecks, logger);
+            const checkovResponse = await scanWithOptions(filePath, options);
+            recordSkippedChecks(filePath, checkovResponse.results.skippedChecks || []);
+            if (suppressionsAudited) {
+                auditFileSuppressions(vscode.Uri.file(filePath), readFileSync(filePath, 'utf8'));
+            }
+            handleScanResults(filePath, editor.document, context.workspaceState, await prepareScanResults(filePath, checkovResponse.results.failedChecks, options), logger);
         } catch (error) {
             if (options.cancelToken.isCancellationRequested) {
                 return;
@@ -396,10 +1309,21 @@ export function activate(context: vscode.ExtensionContext): void {
         }
     }, 100, {});
 
-    const handleScanResults = (filename: string, editor: vscode.TextEditor, state: vscode.Memento, checkovFails: FailedCheckovCheck[], logger: Logger) => {
-        saveCheckovResult(context.workspaceState, checkovFails);
-        applyDiagnostics(editor.document, diagnostics, checkovFails, logger);
-        (checkovFails.length > 0 ? setErrorStatusBarItem : setPassedStatusBarItem)(checkovInstallation?.actualVersion);
-        saveCachedResults(context, getFileHash(filename), editor.document.fileName, checkovFails, logger);
+    const handleScanResults = (filename: string, document: vscode.TextDocument, state: vscode.Memento, checkovFails: FailedCheckovCheck[], logger: Logger) => {
+        // quick fixes, hovers and code lenses look findings up for the active file, so a batch must not replace its findings with another file's
+        if (document === vscode.window.activeTextEditor?.document) {
+            saveCheckovResult(context.workspaceState, checkovFails);
+        }
+        applyDiagnostics(document, diagnostics, checkovFails, logger);
+        // Only open findings count towards the status bar and the findings tree
+        const newCheckovFails = checkovFails.filter(isOpenFinding);
+        documentResults.set(document.uri.toString(), checkovFails);
+        scheduleAcceptanceExpiry();
+        findingsTree.setResults(document.uri, newCheckovFails);
+        // the status bar is about the active file, which a batch of saved files may not include
+        if (!vscode.window.activeTextEditor || vscode.window.activeTextEditor.document === document) {
+            (newCheckovFails.length > 0 ? setErrorStatusBarItem : setPassedStatusBarItem)(checkovInstallation?.actualVersion);
+        }
+        saveCachedResults(context, getFileHash(filename), document.fileName, checkovFails, logger);
     };
 }
@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+import { FailedCheckovCheck } from './checkov';
+import { getSeverityForCheckId, mapSeverityToVSCode } from './utils';
+
+export const FINDINGS_VIEW_ID = 'checkov-prismaless.findings';
+
+const severityOrder = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW', 'INFO', 'UNKNOWN'];
+
+const severityIcons: Record<vscode.DiagnosticSeverity, string> = {
+    [vscode.DiagnosticSeverity.Error]: 'error',
+    [vscode.DiagnosticSeverity.Warning]: 'warning',
+    [vscode.DiagnosticSeverity.Information]: 'info',
+    [vscode.DiagnosticSeverity.Hint]: 'lightbulb'
+};
+
+interface FileNode {
+    kind: 'file';
+    uri: vscode.Uri;
+}
+
+interface SeverityNode {
+    kind: 'severity';
+    uri: vscode.Uri;
+    severity: string;
+}
+
+interface CheckNode {
+    kind: 'check';
+    uri: vscode.Uri;
+    severity: string;
+    checkId: string;
+}
+
+interface FindingNode {
+    kind: 'finding';
+    uri: vscode.Uri;
+    failedCheck: FailedCheckovCheck;
+}
+
+export type FindingsTreeNode = FileNode | SeverityNode | CheckNode | FindingNode;
+
+interface FileResults {
+    uri: vscode.Uri;
+    failedChecks: FailedCheckovCheck[];
+}
+
+const getSeverity = (failedCheck: FailedCheckovCheck): string => getSeverityForCheckId(failedCheck.checkId).toUpperCase();
+
+const compareSeverities = (a: string, b: string): number => {
+    const rank = (severity: string) => severityOrder.includes(severity) ? severityOrder.indexOf(severity) : severityOrder.length;
+    return rank(a) - rank(b);
+};
+
+/**
+ * Tree of the latest Checkov findings, grouped by file, then severity, then check ID
+ */
+export class FindingsTreeDataProvider implements vscode.TreeDataProvider<FindingsTreeNode> {
+    private readonly results: Map<string, FileResults> = new Map();
+    private readonly changeEmitter = new vscode.EventEmitter<FindingsTreeNode | undefined>();
+
+    readonly onDidChangeTreeData: vscode.Event<FindingsTreeNode | undefined> = this.changeEmitter.event;
+
+    /**
+     * Replace the findings of a single file; an empty list removes the file from the tree
+     */
+    setResults(uri: vscode.Uri, failedChecks: FailedCheckovCheck[]): void {
+        if (failedChecks.length > 0) {
+            this.results.set(uri.toString(), { uri, failedChecks });
+        } else {
+            this.results.delete(uri.toString());
+        }
+        this.changeEmitter.fire(undefined);
+    }
+
+    getResults(uri: vscode.Uri): FailedCheckovCheck[] {
+        return this.results.get(uri.toString())?.failedChecks || [];
+    }
+
+    clear(): void {
+        this.results.clear();
+        this.changeEmitter.fire(undefined);
+    }
+
+    /**
+     * Regroup the findings, e.g. after the severity mappings changed
+     */
+    refresh(): void {
+        this.changeEmitter.fire(undefined);
+    }
+
+    getTreeItem(node: FindingsTreeNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'file': {
+                const item = new vscode.TreeItem(node.uri, vscode.TreeItemCollapsibleState.Expanded);
+                item.description = `${this.getResults(node.uri).length} findings`;
+                item.contextValue = 'checkovFile';
+                return item;
+            }
+            case 'severity': {
+                const item = new vscode.TreeItem(node.severity, vscode.TreeItemCollapsibleState.Expanded);
+                item.description = `${this.getFailedChecks(node).length}`;
+                item.iconPath = new vscode.ThemeIcon(severityIcons[mapSeverityToVSCode(node.severity)]);
+                return item;
+            }
+            case 'check': {
+                const failedChecks = this.getFailedChecks(node);
+                const item = new vscode.TreeItem(node.checkId, vscode.TreeItemCollapsibleState.Collapsed);
+                item.description = failedChecks[0]?.checkName;
+                item.tooltip = failedChecks[0]?.guideline;
+                return item;
+            }
+            case 'finding': {
+                const { failedCheck } = node;
+                const line = Math.max(failedCheck.fileLineRange[0] - 1, 0);
+                const item = new vscode.TreeItem(failedCheck.resource, vscode.TreeItemCollapsibleState.None);
+                item.description = `line ${failedCheck.fileLineRange[0]}`;
+                item.tooltip = `${failedCheck.checkId}: ${failedCheck.checkName}`;
+                item.contextValue = 'checkovFinding';
+                item.command = {
+                    title: 'Open finding',
+                    command: 'vscode.open',
+                    arguments: [node.uri, { selection: new vscode.Range(line, 0, line, 0) }]
+                };
+                return item;
+            }
+        }
+    }
+
+    getChildren(node?: FindingsTreeNode): FindingsTreeNode[] {
+        if (!node) {
+            return [...this.results.values()]
+                .sort((a, b) => a.uri.fsPath.localeCompare(b.uri.fsPath))
+                .map(({ uri }) => ({ kind: 'file', uri }));
+        }
+
+        switch (node.kind) {
+            case 'file': {
+                const severities = new Set(this.getResults(node.uri).map(getSeverity));
+                return [...severities].sort(compareSeverities).map(severity => ({ kind: 'severity', uri: node.uri, severity }));
+            }
+            case 'severity': {
+                const checkIds = new Set(this.getFailedChecks(node).map(failedCheck => failedCheck.checkId));
+                return [...checkIds].sort().map(checkId => ({ kind: 'check', uri: node.uri, severity: node.severity, checkId }));
+            }
+            case 'check':
+                return this.getFailedChecks(node)
+                    .sort((a, b) => a.fileLineRange[0] - b.fileLineRange[0])
+                    .map(failedCheck => ({ kind: 'finding', uri: node.uri, failedCheck }));
+            case 'finding':
+                return [];
+        }
+    }
+
+    private getFailedChecks(node: SeverityNode | CheckNode): FailedCheckovCheck[] {
+        return this.getResults(node.uri).filter(failedCheck =>
+            getSeverity(failedCheck) === node.severity && (node.kind === 'severity' || failedCheck.checkId === node.checkId));
+    }
+}
@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+import { FailedCheckovCheck } from './checkov';
+import { CHECKOV_MAP } from './extension';
+import { getSeverityForCheckId, getSeveritySourceForCheckId } from './utils';
+
+/**
+ * Line-based diff of two blocks, as a unified diff body (`-` removed, `+` added, ` ` unchanged)
+ */
+export const createLineDiff = (oldText: string, newText: string): string => {
+    const oldLines = oldText.replace(/\r?\n$/, '').split(/\r?\n/);
+    const newLines = newText.replace(/\r?\n$/, '').split(/\r?\n/);
+
+    // longest common subsequence table, filled from the end so the diff can be walked from the start
+    const lcs: number[][] = Array.from({ length: oldLines.length + 1 }, () => new Array(newLines.length + 1).fill(0));
+    for (let i = oldLines.length - 1; i >= 0; i--) {
+        for (let j = newLines.length - 1; j >= 0; j--) {
+            lcs[i][j] = oldLines[i] === newLines[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const diffLines: string[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < oldLines.length || j < newLines.length) {
+        if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+            diffLines.push(`  ${oldLines[i++]}`);
+            j++;
+        } else if (i < oldLines.length && (j === newLines.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+            diffLines.push(`- ${oldLines[i++]}`);
+        } else {
+            diffLines.push(`+ ${newLines[j++]}`);
+        }
+    }
+    return diffLines.join('\n');
+};
+
+const getBlockText = (document: vscode.TextDocument, failedCheck: FailedCheckovCheck): string => {
+    const startLine = Math.max(failedCheck.fileLineRange[0] - 1, 0);
+    const endLine = Math.min(Math.max(failedCheck.fileLineRange[1] - 1, startLine), document.lineCount - 1);
+    return document.getText(new vscode.Range(document.lineAt(startLine).range.start, document.lineAt(endLine).range.end));
+};
+
+const createCheckMarkdown = (document: vscode.TextDocument, failedCheck: FailedCheckovCheck): vscode.MarkdownString => {
+    const markdown = new vscode.MarkdownString();
+    const severitySource = getSeveritySourceForCheckId(failedCheck.checkId);
+    markdown.appendMarkdown(`**${failedCheck.checkId}** · ${getSeverityForCheckId(failedCheck.checkId)}${severitySource ? ` _(${severitySource})_` : ''}\n\n`);
+    markdown.appendText(failedCheck.checkName);
+    markdown.appendMarkdown('\n\nResource: ');
+    markdown.appendMarkdown(`\`${failedCheck.resource}\``);
+    if (failedCheck.guideline) {
+        markdown.appendMarkdown('\n\n');
+        if (failedCheck.guideline.startsWith('http')) {
+            markdown.appendMarkdown(`[Guideline](${failedCheck.guideline})`);
+        } else {
+            markdown.appendText(failedCheck.guideline);
+        }
+    }
+    if (failedCheck.fixedDefinition) {
+        markdown.appendMarkdown('\n\nSuggested fix:\n');
+        markdown.appendCodeblock(createLineDiff(getBlockText(document, failedCheck), failedCheck.fixedDefinition), 'diff');
+    }
+    return markdown;
+};
+
+const provideCheckovHover = (workspaceState: vscode.Memento) => (document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined => {
+    // the check map only holds the results of the active document
+    if (vscode.window.activeTextEditor?.document.uri.toString() !== document.uri.toString()) return undefined;
+
+    const checkovMap = workspaceState.get<Record<string, FailedCheckovCheck>>(CHECKOV_MAP) || {};
+    const line = position.line + 1; // checkov results are 1-based
+    const failedChecks = Object.values(checkovMap).filter(failedCheck =>
+        failedCheck.fileLineRange[0] <= line && line <= Math.max(failedCheck.fileLineRange[1], failedCheck.fileLineRange[0]));
+    if (failedChecks.length === 0) return undefined;
+
+    return new vscode.Hover(failedChecks.map(failedCheck => createCheckMarkdown(document, failedCheck)));
+};
+
+export const checkovHoverProvider = (workspaceState: vscode.Memento): vscode.HoverProvider => ({
+    provideHover: provideCheckovHover(workspaceState)
+});
@@ -1,32 +1,196 @@
 import * as path from 'path';
-import { existsSync, readFileSync } from 'fs';
+import * as os from 'os';
+import * as crypto from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
 import { Logger } from 'winston';
-import { getWorkspacePath } from './utils';
+import { Document, isSeq, parse, parseDocument, Scalar, stringify } from 'yaml';
+import { getWorkspacePath, isDirectory, isPathInside } from './utils';
+import { shouldMergeParentConfigs } from './configuration';
 
+const configFileNames = ['.checkov.yml', '.checkov.yaml'];
+const mergedConfigDir = path.join(os.tmpdir(), 'checkov-prismaless');
 
-export const getConfigFilePath = (logger: Logger): string | undefined => {
-    const workspacePath = getWorkspacePath(logger);
-    if (workspacePath) {
-        const paths =  [path.join(workspacePath, '.checkov.yml'), path.join(workspacePath, '.checkov.yaml')];
-        for (const path of paths) {
-            if(existsSync(path)) return path;
+export type CheckovConfig = Record<string, unknown>;
+
+// Config keys that hold lists the quick fixes can add to; Checkov accepts both `-` and `_` in key names
+export type CheckovConfigListKey = 'check' | 'skip-check' | 'skip-path' | 'soft-fail-on';
+
+export const isCheckovConfigFile = (fileName: string): boolean => configFileNames.includes(path.basename(fileName));
+
+const findConfigInDirectory = (directory: string): string | undefined => configFileNames
+    .map(fileName => path.join(directory, fileName))
+    .find(configPath => existsSync(configPath));
+
+/**
+ * Returns every config file that applies to the given file, from the workspace root down to the nearest one
+ */
+export const getConfigFileChain = (logger: Logger, filePath?: string, workspacePath = getWorkspacePath(logger, filePath) || undefined): string[] => {
+    if (!workspacePath) {
+        return [];
+    }
+
+    const chain: string[] = [];
+    // files outside of the workspace only get the workspace root config, as before
+    if (filePath && isPathInside(workspacePath, filePath)) {
+        let directory = isDirectory(filePath) ? filePath : path.dirname(filePath);
+        while (isPathInside(workspacePath, directory)) {
+            const configPath = findConfigInDirectory(directory);
+            if (configPath) chain.unshift(configPath);
+            directory = path.dirname(directory);
         }
     }
-    return undefined;
+    const rootConfigPath = findConfigInDirectory(workspacePath);
+    if (rootConfigPath) chain.unshift(rootConfigPath);
+
+    return chain;
+};
+
+const isPlainObject = (value: unknown): value is CheckovConfig => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const mergeConfigs = (parent: CheckovConfig, child: CheckovConfig): CheckovConfig => {
+    const merged: CheckovConfig = { ...parent };
+    for (const [key, value] of Object.entries(child)) {
+        merged[key] = isPlainObject(merged[key]) && isPlainObject(value) ? mergeConfigs(merged[key] as CheckovConfig, value) : value;
+    }
+    return merged;
+};
+
+// Settings that hold paths, which Checkov resolves against the directory it runs in; the list ones may be comma separated
+const listPathKeys = ['directory', 'file', 'skip-path', 'external-checks-dir', 'var-file'];
+const pathKeys = [...listPathKeys, 'baseline', 'ca-certificate', 'output-file-path', 'repo-root-for-plan-enrichment'];
+
+/**
+ * Rewrites the relative paths of a config file in a subdirectory to be relative to the workspace root, where Checkov runs,
+ * so they keep pointing at the same files once the config is merged into a file elsewhere
+ */
+const resolveConfigPaths = (config: CheckovConfig, configPath: string, workspacePath: string): CheckovConfig => {
+    const resolvePath = (value: unknown): unknown => typeof value !== 'string' || value === '' || path.isAbsolute(value) ? value
+        : path.relative(workspacePath, path.resolve(path.dirname(configPath), value)).split(path.sep).join('/') || '.';
+    return Object.fromEntries(Object.entries(config).map(([key, value]) => {
+        const normalizedKey = key.replace(/_/g, '-');
+        if (!pathKeys.includes(normalizedKey)) return [key, value];
+        if (Array.isArray(value)) return [key, value.map(resolvePath)];
+        if (listPathKeys.includes(normalizedKey) && typeof value === 'string') return [key, value.split(',').map(item => resolvePath(item.trim())).join(',')];
+        return [key, resolvePath(value)];
+    }));
+};
+
+/**
+ * Merges the config chain (child wins) into a single config, with the paths of each file resolved against the workspace root
+ */
+export const mergeConfigFiles = (chain: string[], workspacePath: string): CheckovConfig => chain.reduce((result, configPath) => {
+    const parsed = parse(readFileSync(configPath, 'utf8'));
+    return isPlainObject(parsed) ? mergeConfigs(result, resolveConfigPaths(parsed, configPath, workspacePath)) : result;
+}, {} as CheckovConfig);
+
+/**
+ * Merges the config chain into a single file that can be passed to `--config-file`
+ */
+const writeMergedConfigFile = (logger: Logger, chain: string[], workspacePath: string): string | undefined => {
+    try {
+        const content = stringify(mergeConfigFiles(chain, workspacePath));
+        const hash = crypto.createHash('md5').update(chain.join('\n')).update(content).digest('hex');
+        const mergedConfigPath = path.join(mergedConfigDir, `${hash}.checkov.yaml`);
+        if (!existsSync(mergedConfigPath)) {
+            mkdirSync(mergedConfigDir, { recursive: true });
+            writeFileSync(mergedConfigPath, content);
+        }
+        logger.debug(`Merged config files into ${mergedConfigPath}`, { chain });
+        return mergedConfigPath;
+    } catch (error) {
+        logger.warn('Failed to merge config files, falling back to the nearest one', { error, chain });
+        return undefined;
+    }
 };
 
-export const configHasSkipCheck = (logger: Logger): boolean => {
-    const configPath = getConfigFilePath(logger);
+/**
+ * Returns the nearest config file of the given file, which is the one edits should go to
+ */
+export const getNearestConfigFilePath = (logger: Logger, filePath?: string): string | undefined => {
+    const chain = getConfigFileChain(logger, filePath);
+    return chain[chain.length - 1];
+};
+
+/**
+ * Resolves the config file for the given file: the nearest `.checkov.yml`/`.checkov.yaml` walking up to the workspace root,
+ * or, when merging parent configs is enabled, a merged copy of every config along the way
+ */
+export const getConfigFilePath = (logger: Logger, filePath?: string): string | undefined => {
+    const workspacePath = getWorkspacePath(logger, filePath);
+    const chain = getConfigFileChain(logger, filePath, workspacePath || undefined);
+    if (!workspacePath || chain.length === 0) {
+        return undefined;
+    }
+
+    const nearestConfigPath = chain[chain.length - 1];
+    if (chain.length > 1 && shouldMergeParentConfigs()) {
+        return writeMergedConfigFile(logger, chain, workspacePath) || nearestConfigPath;
+    }
+    return nearestConfigPath;
+};
+
+export const readConfig = (logger: Logger, configPath: string | undefined): CheckovConfig | undefined => {
     if (!configPath) {
-        return false;
+        return undefined;
     }
 
     try {
-        const configContent = readFileSync(configPath, 'utf8');
-        // Check for both skip-check and skip_check formats (YAML supports both)
-        return /^\s*skip[-_]check\s*:/m.test(configContent);
+        const config = parse(readFileSync(configPath, 'utf8'));
+        return isPlainObject(config) ? config : undefined;
     } catch (error) {
         logger.warn(`Failed to read config file ${configPath}:`, error);
-        return false;
+        return undefined;
+    }
+};
+
+const getConfigKey = (config: CheckovConfig, key: CheckovConfigListKey): string | undefined =>
+    [key, key.replace(/-/g, '_')].find(candidate => candidate in config);
+
+/**
+ * Returns the values of a list setting of a config read with `readConfig`, written either as a YAML list or as a comma separated string
+ */
+export const getConfigList = (config: CheckovConfig | undefined, key: CheckovConfigListKey): string[] => {
+    const configKey = config && getConfigKey(config, key);
+    if (!config || !configKey) {
+        return [];
     }
+
+    const value = config[configKey];
+    const values = Array.isArray(value) ? value : String(value ?? '').split(',');
+    return values.map(item => String(item).trim()).filter(item => item.length > 0);
+};
+
+export const configHasSkipCheck = (logger: Logger, configPath: string | undefined): boolean => {
+    const config = readConfig(logger, configPath);
+    return !!config && getConfigKey(config, 'skip-check') !== undefined;
+};
+
+/**
+ * Adds a value to a list setting of the config file, keeping the comments and layout of the file.
+ * Settings written as comma separated strings stay strings; a missing setting is added as a YAML list.
+ */
+export const addToConfigList = (logger: Logger, configPath: string, key: CheckovConfigListKey, value: string, comment?: string): void => {
+    const document: Document = parseDocument(existsSync(configPath) ? readFileSync(configPath, 'utf8') : '');
+    if (document.errors.length > 0) {
+        throw new Error(`${configPath} is not valid YAML: ${document.errors[0].message}`);
+    }
+    if (!document.contents) {
+        document.contents = document.createNode({});
+    }
+
+    const config = document.toJS();
+    const configKey = (isPlainObject(config) && getConfigKey(config, key)) || key;
+    const node = document.get(configKey, true);
+    const item = document.createNode(value) as Scalar;
+    item.comment = comment ? ` ${comment}` : undefined;
+    if (isSeq(node)) {
+        node.add(item);
+    } else if (node instanceof Scalar && node.value !== null && String(node.value).trim() !== '') {
+        node.value = `${node.value},${value}`;
+    } else {
+        document.set(configKey, document.createNode([item]));
+    }
+
+    writeFileSync(configPath, document.toString());
+    logger.info(`Added ${value} to ${configKey} in ${configPath}`);
 };
@@ -0,0 +1,180 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Logger } from 'winston';
+import { FailedCheckovCheck } from './checkov';
+import { getSeverityForCheckId, getWorkspacePath, isPathInside } from './utils';
+
+export const SARIF_VERSION = '2.1.0';
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+export type SarifLevel = 'error' | 'warning' | 'note' | 'none';
+
+export interface SarifRule {
+    id: string;
+    name?: string;
+    shortDescription?: { text: string };
+    helpUri?: string;
+    help?: { text: string };
+    defaultConfiguration?: { level: SarifLevel };
+    properties?: { severity?: string };
+}
+
+export interface SarifResult {
+    ruleId: string;
+    level?: SarifLevel;
+    message: { text: string };
+    locations?: {
+        physicalLocation?: {
+            artifactLocation?: { uri?: string, uriBaseId?: string };
+            region?: { startLine?: number, endLine?: number };
+        };
+        logicalLocations?: { name?: string, kind?: string }[];
+    }[];
+    properties?: { resource?: string, severity?: string };
+}
+
+export interface SarifLog {
+    $schema?: string;
+    version: string;
+    runs: {
+        tool: {
+            driver: {
+                name: string;
+                version?: string;
+                informationUri?: string;
+                rules?: SarifRule[];
+            };
+        };
+        results?: SarifResult[];
+    }[];
+}
+
+export interface FileResults {
+    filePath: string;
+    failedChecks: FailedCheckovCheck[];
+}
+
+export const mapSeverityToSarifLevel = (severity: string): SarifLevel => {
+    switch (severity.toUpperCase()) {
+        case 'CRITICAL':
+        case 'HIGH':
+            return 'error';
+        case 'LOW':
+        case 'INFO':
+            return 'note';
+        case 'MEDIUM':
+        case 'UNKNOWN':
+        default:
+            return 'warning';
+    }
+};
+
+/**
+ * SARIF consumers expect artifact URIs relative to the repository, as Checkov writes them in CI
+ */
+const getArtifactUri = (logger: Logger, filePath: string): string => {
+    const workspacePath = getWorkspacePath(logger, filePath);
+    if (workspacePath && isPathInside(workspacePath, filePath)) {
+        return path.relative(workspacePath, filePath).split(path.sep).join('/');
+    }
+    return vscode.Uri.file(filePath).toString();
+};
+
+const getArtifactPath = (artifactUri: string): { filePath?: string, fileAbsPath?: string } => {
+    if (artifactUri.startsWith('file:')) {
+        return { fileAbsPath: vscode.Uri.parse(artifactUri).fsPath };
+    }
+    return { filePath: decodeURIComponent(artifactUri) };
+};
+
+/**
+ * Converts the results of every run in a SARIF log (e.g. a CI `results_sarif.sarif` artifact) back into failed checks.
+ * Artifact URIs are kept as relative file paths, so they can be resolved against the workspace folders.
+ */
+export const getFailedChecksFromSarif = (sarifLog: SarifLog): FailedCheckovCheck[] => {
+    const failedChecks: FailedCheckovCheck[] = [];
+    for (const run of sarifLog.runs || []) {
+        const rules = new Map((run.tool?.driver?.rules || []).map(rule => [rule.id, rule]));
+        for (const result of run.results || []) {
+            const rule = rules.get(result.ruleId);
+            const location = result.locations?.[0];
+            const artifactUri = location?.physicalLocation?.artifactLocation?.uri;
+            if (!artifactUri) continue;
+
+            const startLine = location.physicalLocation?.region?.startLine || 1;
+            const endLine = location.physicalLocation?.region?.endLine || startLine;
+            failedChecks.push({
+                checkId: result.ruleId,
+                checkName: rule?.shortDescription?.text || result.message.text,
+                fileLineRange: [startLine, endLine],
+                resource: result.properties?.resource || location.logicalLocations?.[0]?.name || '',
+                guideline: rule?.helpUri || rule?.help?.text,
+                severity: result.properties?.severity || rule?.properties?.severity,
+                ...getArtifactPath(artifactUri)
+            });
+        }
+    }
+    return failedChecks;
+};
+
+const createRule = (failedCheck: FailedCheckovCheck, severity: string): SarifRule => ({
+    id: failedCheck.checkId,
+    name: failedCheck.checkId,
+    shortDescription: { text: failedCheck.checkName },
+    ...(failedCheck.guideline?.startsWith('http') ? { helpUri: failedCheck.guideline } : {}),
+    ...(failedCheck.guideline ? { help: { text: failedCheck.guideline } } : {}),
+    defaultConfiguration: { level: mapSeverityToSarifLevel(severity) },
+    properties: { severity }
+});
+
+const createResult = (artifactUri: string, failedCheck: FailedCheckovCheck, severity: string): SarifResult => ({
+    ruleId: failedCheck.checkId,
+    level: mapSeverityToSarifLevel(severity),
+    message: { text: failedCheck.checkName },
+    locations: [{
+        physicalLocation: {
+            artifactLocation: { uri: artifactUri },
+            region: {
+                startLine: Math.max(failedCheck.fileLineRange[0], 1),
+                endLine: Math.max(failedCheck.fileLineRange[1], failedCheck.fileLineRange[0], 1)
+            }
+        },
+        logicalLocations: [{ name: failedCheck.resource, kind: 'resource' }]
+    }],
+    properties: { resource: failedCheck.resource, severity }
+});
+
+/**
+ * Builds a SARIF 2.1.0 log with a single Checkov run out of the results of one or more files
+ */
+export const createSarifLog = (logger: Logger, filesResults: FileResults[], checkovVersion: string | undefined): SarifLog => {
+    const rules: Map<string, SarifRule> = new Map();
+    const results: SarifResult[] = [];
+
+    for (const { filePath, failedChecks } of filesResults) {
+        const artifactUri = getArtifactUri(logger, filePath);
+        for (const failedCheck of failedChecks) {
+            const severity = getSeverityForCheckId(failedCheck.checkId, logger);
+            if (!rules.has(failedCheck.checkId)) {
+                rules.set(failedCheck.checkId, createRule(failedCheck, severity));
+            }
+            results.push(createResult(artifactUri, failedCheck, severity));
+        }
+    }
+
+    return {
+        $schema: SARIF_SCHEMA,
+        version: SARIF_VERSION,
+        runs: [{
+            tool: {
+                driver: {
+                    name: 'Checkov',
+                    ...(checkovVersion ? { version: checkovVersion } : {}),
+                    informationUri: 'https://www.checkov.io/',
+                    rules: [...rules.values()]
+                }
+            },
+            results
+        }]
+    };
+};
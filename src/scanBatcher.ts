@@ -0,0 +1,41 @@
+import * as vscode from 'vscode';
+
+export interface ScanBatcher extends vscode.Disposable {
+    enqueue: (document: vscode.TextDocument) => void;
+}
+
+/**
+ * Gathers the documents queued within `window` milliseconds of the first one, so files saved together
+ * (by "Save All", a refactoring or a git checkout) are scanned in one Checkov run instead of one run each.
+ * Only documents with the same key can share a run, so each key is handed to `scanBatch` separately.
+ */
+export const createScanBatcher = (window: number, getKey: (document: vscode.TextDocument) => string,
+    scanBatch: (documents: vscode.TextDocument[]) => Promise<void>): ScanBatcher => {
+    let pending = new Map<string, vscode.TextDocument>();
+    let timer: NodeJS.Timeout | undefined;
+
+    const flush = () => {
+        const batches = new Map<string, vscode.TextDocument[]>();
+        for (const document of pending.values()) {
+            const key = getKey(document);
+            batches.set(key, [...(batches.get(key) || []), document]);
+        }
+        pending = new Map();
+        timer = undefined;
+        batches.forEach(documents => scanBatch(documents));
+    };
+
+    return {
+        enqueue: (document: vscode.TextDocument) => {
+            // a document saved twice within the window is scanned once, as it is on disk by then
+            pending.set(document.uri.toString(), document);
+            if (!timer) {
+                timer = setTimeout(flush, window);
+            }
+        },
+        dispose: () => {
+            if (timer) clearTimeout(timer);
+            pending.clear();
+        }
+    };
+};
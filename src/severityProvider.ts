@@ -2,6 +2,8 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { Logger } from 'winston';
+import { parse } from 'yaml';
+import { getOrganizationSeverityMappings, getSeverityOverrides, isOfflineMode } from './configuration';
 
 // Core interfaces from Integration-Guide.md
 export enum SeverityLevel {
@@ -35,6 +37,66 @@ export interface ReleaseInfo {
     extractor_version: string;
 }
 
+/**
+ * Where a severity came from; the layers are looked up in this order, and the first one that rates a check wins
+ */
+export type SeveritySource = 'workspace' | 'user' | 'organization' | 'github' | 'bundled';
+type OverrideSource = 'workspace' | 'user' | 'organization';
+const overrideSources: OverrideSource[] = ['workspace', 'user', 'organization'];
+
+export const severitySourceLabels: Record<SeveritySource, string> = {
+    workspace: 'workspace override',
+    user: 'user setting',
+    organization: 'organization mappings',
+    github: 'GitHub mappings',
+    bundled: 'bundled mappings'
+};
+
+// Severity overrides of a workspace folder, either a map of check IDs to severities or in the format of the GitHub mappings
+export const SEVERITY_OVERRIDES_FILE_NAME = '.checkov-severities.yaml';
+
+// The severities of one layer, by upper case check ID
+export type SeverityLayer = [SeveritySource, Map<string, SeverityLevel>];
+
+export interface RatedSeverity {
+    severity: SeverityLevel;
+    source: SeveritySource;
+}
+
+/**
+ * Looks the check ID up in each layer in turn; the first layer that rates it wins
+ */
+export const lookupSeverity = (layers: SeverityLayer[], checkovId: string): RatedSeverity | null => {
+    const checkId = checkovId.toUpperCase();
+    for (const [source, severities] of layers) {
+        const severity = severities.get(checkId);
+        if (severity) return { severity, source };
+    }
+    return null;
+};
+
+/**
+ * Reads overrides given either as a map of check IDs to severities, or in the format of the GitHub mappings.
+ * Invalid severities are skipped, so one typo does not drop the whole layer.
+ */
+export const parseSeverityOverrides = (data: unknown, onInvalid: (checkId: string, severity: unknown) => void): Map<string, SeverityLevel> => {
+    const overrides = new Map<string, SeverityLevel>();
+    if (!data || typeof data !== 'object') return overrides;
+
+    const record = data as Record<string, unknown>;
+    const entries = record.mappings && typeof record.mappings === 'object' ? record.mappings as Record<string, unknown> : record;
+    const validSeverities: string[] = Object.values(SeverityLevel);
+    for (const [checkId, severity] of Object.entries(entries)) {
+        const severityValue = String(severity).toUpperCase();
+        if (validSeverities.includes(severityValue)) {
+            overrides.set(checkId.toUpperCase(), severityValue as SeverityLevel);
+        } else {
+            onInvalid(checkId, severity);
+        }
+    }
+    return overrides;
+};
+
 interface CachedMappings {
     data: CheckovMappings;
     cached_at: string;
@@ -49,6 +111,8 @@ const RELEASE_INFO_URL = `https://github.com/${REPO}/releases/latest/download/re
 
 // Cache configuration
 const CACHE_KEY = 'checkov_severity_mappings';
+// the last organization mappings downloaded, used when the URL cannot be reached
+const ORGANIZATION_CACHE_KEY = 'checkov_organization_severity_mappings';
 const CACHE_DURATION_HOURS = 24;
 const UPDATE_CHECK_INTERVAL_HOURS = 1;
 const NETWORK_TIMEOUT_MS = 10000;
@@ -56,6 +120,10 @@ const MAX_RETRIES = 3;
 
 export class CheckovSeverityProvider {
     private mappings: Map<string, SeverityLevel> = new Map();
+    private mappingsSource: 'github' | 'bundled' = 'bundled';
+    private overrides: Map<OverrideSource, Map<string, SeverityLevel>> = new Map();
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    private disposables: vscode.Disposable[] = [];
     private context: vscode.ExtensionContext | null = null;
     private logger: Logger | null = null;
     private lastUpdate: Date | null = null;
@@ -64,6 +132,11 @@ export class CheckovSeverityProvider {
     private outputChannel: vscode.OutputChannel;
     private isInitialized: boolean = false;
 
+    /**
+     * Fired whenever the severity of any check may have changed
+     */
+    readonly onDidChangeMappings: vscode.Event<void> = this.changeEmitter.event;
+
     constructor() {
         this.outputChannel = vscode.window.createOutputChannel('Checkov Severity Provider');
     }
@@ -80,6 +153,8 @@ export class CheckovSeverityProvider {
 
         try {
             await this.loadMappings();
+            await this.loadOverrides();
+            this.watchOverrides();
             this.startBackgroundUpdateChecker();
             this.log(`Successfully initialized with ${this.mappings.size} severity mappings`);
         } catch (error) {
@@ -97,9 +172,46 @@ export class CheckovSeverityProvider {
             return null;
         }
 
-        const severity = this.mappings.get(checkovId.toUpperCase()) || null;
-        this.log(`Severity lookup for ${checkovId}: ${severity}`);
-        return severity;
+        const rated = this.lookup(checkovId);
+        this.log(`Severity lookup for ${checkovId}: ${rated?.severity ?? null} (${rated?.source ?? 'no mapping'})`);
+        return rated?.severity ?? null;
+    }
+
+    /**
+     * Get the layer the severity of a check ID comes from, or null if no layer rates it
+     */
+    getSeveritySource(checkovId: string): SeveritySource | null {
+        return this.lookup(checkovId)?.source ?? null;
+    }
+
+    /**
+     * Get every check ID that has a severity mapping in any layer
+     */
+    getCheckIds(): string[] {
+        return [...new Set([...[...this.overrides.values()].flatMap(overrides => [...overrides.keys()]), ...this.mappings.keys()])];
+    }
+
+    /**
+     * Reload the workspace override files, the user setting and the organization mappings
+     */
+    async loadOverrides(): Promise<void> {
+        const workspaceOverrides = new Map<string, SeverityLevel>();
+        // in multi-root workspaces, earlier folders win
+        for (const folder of [...(vscode.workspace.workspaceFolders || [])].reverse()) {
+            const overridesPath = path.join(folder.uri.fsPath, SEVERITY_OVERRIDES_FILE_NAME);
+            if (!fs.existsSync(overridesPath)) continue;
+            try {
+                this.parseOverrides(parse(fs.readFileSync(overridesPath, 'utf8')), overridesPath).forEach((severity, checkId) => workspaceOverrides.set(checkId, severity));
+            } catch (error) {
+                this.logError(`Failed to read severity overrides from ${overridesPath}`, error);
+            }
+        }
+        this.overrides.set('workspace', workspaceOverrides);
+        this.overrides.set('user', this.parseOverrides(getSeverityOverrides(), 'the severityOverrides setting'));
+        this.overrides.set('organization', await this.loadOrganizationMappings());
+
+        this.log(`Loaded severity overrides: ${overrideSources.map(source => `${this.overrides.get(source)?.size ?? 0} from ${severitySourceLabels[source]}`).join(', ')}`);
+        this.changeEmitter.fire();
     }
 
     /**
@@ -115,19 +227,26 @@ export class CheckovSeverityProvider {
         try {
             // Try to load from cache first
             const cached = await this.loadFromCache();
-            if (cached && !this.isCacheExpired(cached)) {
+            // offline, an expired cache still beats the bundled mappings
+            if (cached && (isOfflineMode() || !this.isCacheExpired(cached))) {
                 this.log('Using cached mappings');
-                this.applyMappings(cached.data);
+                this.applyMappings(cached.data, 'github');
                 this.lastUpdate = new Date(cached.cached_at);
                 this.currentVersion = cached.version;
                 return;
             }
 
+            if (isOfflineMode()) {
+                this.log('Offline mode: no cached mappings, using the bundled file');
+                await this.loadFallbackMappings();
+                return;
+            }
+
             this.log('Cache miss or expired, fetching from GitHub');
             
             // Fetch from GitHub
             const freshMappings = await this.fetchFromGitHub();
-            this.applyMappings(freshMappings);
+            this.applyMappings(freshMappings, 'github');
             await this.saveToCache(freshMappings);
             
         } catch (error) {
@@ -160,11 +279,15 @@ export class CheckovSeverityProvider {
      * Force refresh mappings from GitHub
      */
     async forceRefresh(): Promise<void> {
+        if (isOfflineMode()) {
+            throw new Error('Severity mappings cannot be refreshed from GitHub in offline mode');
+        }
         this.log('Force refreshing mappings from GitHub');
         try {
             const freshMappings = await this.fetchFromGitHub();
-            this.applyMappings(freshMappings);
+            this.applyMappings(freshMappings, 'github');
             await this.saveToCache(freshMappings);
+            await this.loadOverrides();
             this.log('Successfully refreshed mappings');
         } catch (error) {
             this.logError('Failed to force refresh mappings', error);
@@ -173,13 +296,20 @@ export class CheckovSeverityProvider {
     }
 
     /**
-     * Get current statistics
+     * Get current statistics; `sources` counts the check IDs whose severity comes from each layer
      */
-    getStatistics(): { totalMappings: number; lastUpdate: string | null; version: string | null } {
+    getStatistics(): { totalMappings: number; lastUpdate: string | null; version: string | null; sources: Record<SeveritySource, number> } {
+        const sources: Record<SeveritySource, number> = { workspace: 0, user: 0, organization: 0, github: 0, bundled: 0 };
+        const checkIds = this.getCheckIds();
+        for (const checkId of checkIds) {
+            const source = this.getSeveritySource(checkId);
+            if (source) sources[source]++;
+        }
         return {
-            totalMappings: this.mappings.size,
+            totalMappings: checkIds.length,
             lastUpdate: this.lastUpdate?.toISOString() || null,
-            version: this.currentVersion
+            version: this.currentVersion,
+            sources
         };
     }
 
@@ -191,11 +321,74 @@ export class CheckovSeverityProvider {
             clearInterval(this.updateCheckInterval);
             this.updateCheckInterval = null;
         }
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+        this.changeEmitter.dispose();
         this.outputChannel.dispose();
     }
 
     // Private methods
 
+    private lookup(checkovId: string): RatedSeverity | null {
+        const overrideLayers = overrideSources.map((source): SeverityLayer => [source, this.overrides.get(source) || new Map()]);
+        return lookupSeverity([...overrideLayers, [this.mappingsSource, this.mappings]], checkovId);
+    }
+
+    private parseOverrides(data: unknown, origin: string): Map<string, SeverityLevel> {
+        return parseSeverityOverrides(data, (checkId, severity) => this.logError(`Ignoring invalid severity ${severity} for ${checkId} in ${origin}`));
+    }
+
+    /**
+     * Loads the organization mappings from a URL or a file path; relative paths are relative to the first workspace folder
+     */
+    private async loadOrganizationMappings(): Promise<Map<string, SeverityLevel>> {
+        const location = getOrganizationSeverityMappings();
+        if (!location) return new Map();
+
+        if (/^https?:\/\//.test(location)) {
+            const cached = this.context?.globalState.get<{ location: string, data: unknown }>(ORGANIZATION_CACHE_KEY);
+            const cachedMappings = cached?.location === location ? this.parseOverrides(cached.data, location) : new Map<string, SeverityLevel>();
+            if (isOfflineMode()) {
+                this.log(`Offline mode: using ${cachedMappings.size} organization severity mappings downloaded earlier`);
+                return cachedMappings;
+            }
+            try {
+                const data = await this.downloadWithRetry(location);
+                await this.context?.globalState.update(ORGANIZATION_CACHE_KEY, { location, data });
+                return this.parseOverrides(data, location);
+            } catch (error) {
+                this.logError(`Failed to download organization severity mappings, using ${cachedMappings.size} downloaded earlier`, error);
+                return cachedMappings;
+            }
+        }
+
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        const filePath = path.isAbsolute(location) || !workspaceFolder ? location : path.join(workspaceFolder, location);
+        try {
+            return this.parseOverrides(parse(fs.readFileSync(filePath, 'utf8')), filePath);
+        } catch (error) {
+            this.logError(`Failed to read organization severity mappings from ${filePath}`, error);
+            return new Map();
+        }
+    }
+
+    private watchOverrides(): void {
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${SEVERITY_OVERRIDES_FILE_NAME}`);
+        const reload = () => this.loadOverrides();
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(reload),
+            watcher.onDidChange(reload),
+            watcher.onDidDelete(reload),
+            vscode.workspace.onDidChangeWorkspaceFolders(reload),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('checkov-prismaless.severityOverrides') || event.affectsConfiguration('checkov-prismaless.organizationSeverityMappings')) {
+                    reload();
+                }
+            })
+        );
+    }
+
     private async fetchFromGitHub(): Promise<CheckovMappings> {
         this.log('Fetching mappings from GitHub');
         
@@ -297,8 +490,9 @@ export class CheckovSeverityProvider {
         this.log(`Data validation passed: ${mappingsCount} mappings`);
     }
 
-    private applyMappings(mappings: CheckovMappings): void {
+    private applyMappings(mappings: CheckovMappings, source: 'github' | 'bundled'): void {
         this.mappings.clear();
+        this.mappingsSource = source;
         
         for (const [checkovId, severity] of Object.entries(mappings.mappings)) {
             this.mappings.set(checkovId.toUpperCase(), severity);
@@ -307,7 +501,8 @@ export class CheckovSeverityProvider {
         this.lastUpdate = new Date(mappings.metadata.timestamp);
         this.currentVersion = mappings.metadata.version;
         
-        this.log(`Applied ${this.mappings.size} severity mappings`);
+        this.log(`Applied ${this.mappings.size} severity mappings from ${severitySourceLabels[source]}`);
+        this.changeEmitter.fire();
     }
 
     private async loadFromCache(): Promise<CachedMappings | null> {
@@ -388,7 +583,7 @@ export class CheckovSeverityProvider {
             
             // Convert legacy format to new format if needed
             const mappings = this.convertLegacyFormat(fallbackData);
-            this.applyMappings(mappings);
+            this.applyMappings(mappings, 'bundled');
             
             this.log(`Loaded ${this.mappings.size} fallback severity mappings`);
         } catch (error) {
@@ -432,6 +627,7 @@ export class CheckovSeverityProvider {
     private startBackgroundUpdateChecker(): void {
         // Check for updates every hour
         this.updateCheckInterval = setInterval(async () => {
+            if (isOfflineMode()) return;
             try {
                 if (await this.checkForUpdates()) {
                     this.log('Update detected, refreshing mappings in background');
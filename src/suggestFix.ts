@@ -1,43 +1,103 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
+import { Logger } from 'winston';
 import { FailedCheckovCheck } from './checkov';
-import { OPEN_EXTERNAL_COMMAND, REMOVE_DIAGNOSTICS_COMMAND } from './commands';
+import { ACCEPT_RISK_COMMAND, ADD_TO_CHECKOV_CONFIG_COMMAND, OPEN_EXTERNAL_COMMAND, REMOVE_DIAGNOSTICS_COMMAND } from './commands';
 import { DiagnosticReferenceCode } from './diagnostics';
 import { CHECKOV_MAP } from './extension';
-import { createDiagnosticKey } from './utils';
+import { createDiagnosticKey, getWorkspacePath, isPathInside } from './utils';
+import { CheckovConfig, CheckovConfigListKey, getConfigFilePath, getConfigList, readConfig } from './parseCheckovConfig';
+import { canSuppressCheck, createSuppressionEdit } from './suppressions';
+import { isOpenFinding } from './acceptances';
 
-const provideFixCodeActions = (workspaceState: vscode.Memento) => (document: vscode.TextDocument, range: vscode.Range | vscode.Selection, context: vscode.CodeActionContext): vscode.CodeAction[] => {
+export const FIX_ALL_CODE_ACTION_KIND = vscode.CodeActionKind.SourceFixAll.append('checkov');
+
+const provideFixCodeActions = (workspaceState: vscode.Memento, logger: Logger) => (document: vscode.TextDocument, range: vscode.Range | vscode.Selection, context: vscode.CodeActionContext): vscode.CodeAction[] => {
+    if (context.only?.contains(FIX_ALL_CODE_ACTION_KIND)) {
+        return createFixAllCodeAction(workspaceState, document);
+    }
     // for each diagnostic entry that has the matching `code`, create a code action command
     const checkovMap = workspaceState.get<Record<string, FailedCheckovCheck>>(CHECKOV_MAP) || {};
-    return context.diagnostics
-        .map(diagnostic => createCommandCodeAction(document, diagnostic, checkovMap[createDiagnosticKey(diagnostic)]))
+    // the check map only holds the results of the active document, so diagnostics of other open documents get no actions
+    const diagnostics = context.diagnostics.filter(diagnostic => checkovMap[createDiagnosticKey(diagnostic)]);
+    const configTarget = diagnostics.length > 0 ? getConfigTarget(logger, document) : undefined;
+    return diagnostics
+        .map(diagnostic => [
+            ...createCommandCodeAction(document, diagnostic, checkovMap[createDiagnosticKey(diagnostic)]),
+            ...(configTarget ? createConfigCodeActions(document, diagnostic, checkovMap[createDiagnosticKey(diagnostic)], configTarget) : [])
+        ])
         .reduce((prev, current) => [...prev, ...current], []);
 };
 
-const getCommentStringByFileName = (file: string): string => {
-    const specialFilesDict: { [key: string]: string } = {
-        ts: '//',
-        js: '//',
-        go: '//',
-        java: '//',
-        cpp: '//',
-        cc: '//',
-        cs: '//',
-        php: '//',
-        swift: '//'
-    };
+const getBlockRange = (document: vscode.TextDocument, checkovCheck: FailedCheckovCheck): vscode.Range => new vscode.Range(
+    document.lineAt(checkovCheck.fileLineRange[0] - 1).range.start,
+    document.lineAt(checkovCheck.fileLineRange[1] - 1).range.end
+);
 
-    const parts = file.split('.');
-    const fileType = parts[parts.length - 1];
+export interface CombinedFixEdit {
+    edit: vscode.WorkspaceEdit;
+    applied: FailedCheckovCheck[];
+    skipped: FailedCheckovCheck[];
+}
 
-    return specialFilesDict[fileType] || '#';
+/**
+ * Replaces the blocks of all the given checks with their fixed definitions in a single edit, starting from the bottom
+ * of the document so the ranges of the remaining blocks stay valid.
+ * Each fix replaces a whole block, so a fix whose block overlaps one that is already part of the edit is skipped;
+ * rescanning after applying the edit offers it again, based on the updated block.
+ */
+export const createCombinedFixEdit = (document: vscode.TextDocument, checkovChecks: FailedCheckovCheck[]): CombinedFixEdit => {
+    const edit = new vscode.WorkspaceEdit();
+    const applied: FailedCheckovCheck[] = [];
+    const skipped: FailedCheckovCheck[] = [];
+    const appliedRanges: vscode.Range[] = [];
+    const bottomUpChecks = checkovChecks
+        .filter(check => check.fixedDefinition)
+        .sort((a, b) => b.fileLineRange[0] - a.fileLineRange[0]);
+
+    for (const checkovCheck of bottomUpChecks) {
+        const blockRange = getBlockRange(document, checkovCheck);
+        if (appliedRanges.some(range => range.intersection(blockRange))) {
+            skipped.push(checkovCheck);
+            continue;
+        }
+        edit.replace(document.uri, blockRange, checkovCheck.fixedDefinition as string);
+        appliedRanges.push(blockRange);
+        applied.push(checkovCheck);
+    }
+    return { edit, applied, skipped };
 };
 
-const generateSkipComment = (checkId: string, file: string) => `  ${getCommentStringByFileName(file)} checkov:skip=${checkId}: ADD REASON\n`;
+/**
+ * Combines the fixes of every finding of the active document. Findings that were edited since the last scan are left
+ * out, since their fixes are based on the previous content of their block.
+ */
+export const createFixAllEdit = (workspaceState: vscode.Memento, document: vscode.TextDocument): CombinedFixEdit => {
+    // the check map only holds the results of the active document
+    const isActiveDocument = vscode.window.activeTextEditor?.document.uri.toString() === document.uri.toString();
+    const checkovMap = isActiveDocument ? workspaceState.get<Record<string, FailedCheckovCheck>>(CHECKOV_MAP) || {} : {};
+    return createCombinedFixEdit(document, Object.values(checkovMap).filter(check => isOpenFinding(check) && !check.stale));
+};
 
-const createCommandCodeAction = (document: vscode.TextDocument, diagnostic: vscode.Diagnostic, checkovCheck: FailedCheckovCheck): vscode.CodeAction[] => {
-    const skipEdit: vscode.WorkspaceEdit = new vscode.WorkspaceEdit();
-    skipEdit.insert(document.uri, document.lineAt(checkovCheck.fileLineRange[0]).range.start, generateSkipComment(checkovCheck.checkId, document.fileName));
-    const skipCommand = checkovCheck.checkId.includes('_K8S_') ? [] : [
+const createFixAllCodeAction = (workspaceState: vscode.Memento, document: vscode.TextDocument): vscode.CodeAction[] => {
+    const { edit, applied } = createFixAllEdit(workspaceState, document);
+    if (applied.length === 0) return [];
+    return [
+        {
+            title: `Apply all Checkov fixes (${applied.length})`,
+            kind: FIX_ALL_CODE_ACTION_KIND,
+            edit,
+            command: {
+                title: 'Apply all fixes',
+                command: REMOVE_DIAGNOSTICS_COMMAND
+            }
+        }
+    ];
+};
+
+export const createCommandCodeAction = (document: vscode.TextDocument, diagnostic: vscode.Diagnostic, checkovCheck: FailedCheckovCheck): vscode.CodeAction[] => {
+    const skipEdit: vscode.WorkspaceEdit = createSuppressionEdit(document, [checkovCheck]);
+    const skipCommand = !canSuppressCheck(document, checkovCheck) ? [] : [
         {
             title: `Generate skip comment for - ${checkovCheck.checkName}`,
             kind: vscode.CodeActionKind.QuickFix,
@@ -50,8 +110,22 @@ const createCommandCodeAction = (document: vscode.TextDocument, diagnostic: vsco
             }
         }
     ];
+    const acceptRiskCommand = document.uri.scheme !== 'file' ? [] : [
+        {
+            title: `Accept risk until… - ${checkovCheck.checkName}`,
+            kind: vscode.CodeActionKind.QuickFix,
+            diagnostics: [diagnostic],
+            isPreferred: false,
+            command: {
+                title: 'Accept risk until…',
+                command: ACCEPT_RISK_COMMAND,
+                arguments: [document.uri, checkovCheck]
+            }
+        }
+    ];
     const actions: vscode.CodeAction[] = [
         ...skipCommand,
+        ...acceptRiskCommand,
         {
             title: `Learn more about - ${checkovCheck.checkName}`,
             kind: vscode.CodeActionKind.Empty,
@@ -64,13 +138,9 @@ const createCommandCodeAction = (document: vscode.TextDocument, diagnostic: vsco
         }
     ];
 
-    if (checkovCheck && checkovCheck.fixedDefinition) {
-        const blockRange = new vscode.Range(
-            document.lineAt(checkovCheck.fileLineRange[0] - 1).range.start,
-            document.lineAt(checkovCheck.fileLineRange[1] - 1).range.end
-        );
-        const fixEdit: vscode.WorkspaceEdit = new vscode.WorkspaceEdit();
-        fixEdit.replace(document.uri, blockRange, checkovCheck.fixedDefinition);
+    // a finding edited since the scan would have its edits replaced by a fix based on the previous content of its block
+    if (checkovCheck && checkovCheck.fixedDefinition && !checkovCheck.stale) {
+        const fixEdit: vscode.WorkspaceEdit = createCombinedFixEdit(document, [checkovCheck]).edit;
 
         return [
             {
@@ -90,11 +160,58 @@ const createCommandCodeAction = (document: vscode.TextDocument, diagnostic: vsco
     return actions;
 };
 
+// The resolved config of a document and its path relative to the workspace folder, which is the directory Checkov runs in
+interface ConfigTarget {
+    config: CheckovConfig | undefined;
+    relativePath: string;
+}
+
+/**
+ * Reads the config of the document once for all its diagnostics; documents outside of the workspace have no config to add to
+ */
+const getConfigTarget = (logger: Logger, document: vscode.TextDocument): ConfigTarget | undefined => {
+    const workspacePath = getWorkspacePath(logger, document.fileName);
+    if (document.uri.scheme !== 'file' || !workspacePath || !isPathInside(workspacePath, document.fileName)) return undefined;
+
+    return {
+        config: readConfig(logger, getConfigFilePath(logger, document.fileName)),
+        relativePath: path.relative(workspacePath, document.fileName).split(path.sep).join('/')
+    };
+};
+
+/**
+ * Offers to add the check or the file to the lists of the config file, unless the resolved config already has them
+ */
+const createConfigCodeActions = (document: vscode.TextDocument, diagnostic: vscode.Diagnostic, checkovCheck: FailedCheckovCheck, { config, relativePath }: ConfigTarget): vscode.CodeAction[] => {
+    const createConfigAction = (title: string, key: CheckovConfigListKey, value: string, comment?: string): vscode.CodeAction => ({
+        title,
+        kind: vscode.CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        isPreferred: false,
+        command: {
+            title,
+            command: ADD_TO_CHECKOV_CONFIG_COMMAND,
+            arguments: [document.uri, key, value, comment]
+        }
+    });
+
+    return [
+        ...(getConfigList(config, 'skip-check').includes(checkovCheck.checkId) ? []
+            : [createConfigAction(`Add ${checkovCheck.checkId} to skip-check in the Checkov config`, 'skip-check', checkovCheck.checkId)]),
+        ...(getConfigList(config, 'skip-path').includes(relativePath) ? []
+            : [createConfigAction(`Add ${relativePath} to skip-path in the Checkov config`, 'skip-path', relativePath)]),
+        // soft-fail-on only takes check IDs, so it applies to every file; the file it was added for is kept as a comment next to it
+        ...(getConfigList(config, 'soft-fail-on').includes(checkovCheck.checkId) ? []
+            : [createConfigAction(`Soft-fail ${checkovCheck.checkId} everywhere in the Checkov config`, 'soft-fail-on', checkovCheck.checkId, relativePath)])
+    ];
+};
+
 export const providedCodeActionKinds: vscode.CodeActionKind[] = [
     vscode.CodeActionKind.QuickFix,
-    vscode.CodeActionKind.Empty
+    vscode.CodeActionKind.Empty,
+    FIX_ALL_CODE_ACTION_KIND
 ];
 
-export const fixCodeActionProvider = (workspaceState: vscode.Memento): vscode.CodeActionProvider => ({
-    provideCodeActions: provideFixCodeActions(workspaceState)
+export const fixCodeActionProvider = (workspaceState: vscode.Memento, logger: Logger): vscode.CodeActionProvider => ({
+    provideCodeActions: provideFixCodeActions(workspaceState, logger)
 });
@@ -0,0 +1,226 @@
+import * as vscode from 'vscode';
+import { FailedCheckovCheck } from './checkov';
+import { getSeverityProvider } from './severityProvider';
+import { SKIP_REASON_PLACEHOLDER } from './suppressions';
+
+export const SUPPRESSIONS_VIEW_ID = 'checkov-prismaless.suppressions';
+export const SUPPRESSION_DIAGNOSTIC_SOURCE = 'Checkov suppressions';
+
+// The files Checkov scans that suppressions can be written in, and the folders that hold vendored or generated copies of them
+export const SUPPRESSION_FILES_GLOB = '**/{*.tf,*.tfvars,*.hcl,*.yaml,*.yml,*.json,*.template,*.bicep,*.py,*.js,*.ts,Dockerfile,*.dockerfile,Dockerfile.*}';
+export const SUPPRESSION_FILES_EXCLUDE_GLOB = '**/{node_modules,.git,.terraform,vendor,dist,build,out,.venv,venv,__pycache__,.serverless,cdk.out}/**';
+export const MAX_SUPPRESSION_FILES = 5000;
+
+type SuppressionKind = 'comment' | 'kubernetes' | 'cloudformation';
+type SuppressionIssue = 'missingReason' | 'unknownCheck' | 'stale';
+
+export interface Suppression {
+    checkId: string;
+    reason?: string;
+    // 0-based, like the lines of a document
+    line: number;
+    kind: SuppressionKind;
+    issues: SuppressionIssue[];
+}
+
+type FoundSuppression = Omit<Suppression, 'issues'>;
+
+const issueMessages: Record<SuppressionIssue, (suppression: Suppression) => string> = {
+    missingReason: suppression => `Suppression of ${suppression.checkId} has no reason`,
+    unknownCheck: suppression => `Suppression of unknown check ${suppression.checkId}`,
+    stale: suppression => `Suppression of ${suppression.checkId} no longer matches a finding`
+};
+
+// `checkov:skip=CKV_AWS_20: reason`, in any comment style
+const commentPattern = /checkov:skip=([\w-]+)(?::(.*))?/;
+// `checkov.io/skip1: CKV_K8S_20=reason`
+const annotationPattern = /checkov\.io\/skip\d+["']?\s*:\s*["']?([\w-]+)(?:=([^"']*))?/;
+// `"checkov": {"skip": [{"id": "CKV_AWS_20", "comment": "reason"}]}` in JSON CloudFormation templates
+const jsonSkipListPattern = /"checkov"\s*:\s*\{\s*"skip"\s*:\s*\[([^\]]*)\]/g;
+const jsonSkipPattern = /"id"\s*:\s*"([\w-]+)"(?:\s*,\s*"comment"\s*:\s*"([^"]*)")?/g;
+
+const indentOf = (text: string): number => text.length - text.trimStart().length;
+
+const cleanReason = (reason: string | undefined): string | undefined => {
+    const cleaned = reason?.replace(/\s*(\*\/|-->)\s*$/, '').replace(/^["']|["']$/g, '').trim();
+    return cleaned || undefined;
+};
+
+/**
+ * Collects the `- id:` items of CloudFormation `Metadata.checkov.skip` lists, with the `comment` of each item
+ */
+const findCloudFormationSkips = (lines: string[]): FoundSuppression[] => {
+    const suppressions: FoundSuppression[] = [];
+    let skipIndent: number | undefined;
+    let previousKey: string | undefined;
+    lines.forEach((text, line) => {
+        const trimmed = text.trim();
+        if (trimmed === '' || trimmed.startsWith('#')) return;
+        const indent = indentOf(text);
+        if (skipIndent !== undefined && (indent < skipIndent || (indent === skipIndent && !trimmed.startsWith('-')))) {
+            skipIndent = undefined;
+        }
+        if (skipIndent !== undefined) {
+            const idMatch = trimmed.match(/^-\s*id\s*:\s*["']?([\w-]+)/);
+            const commentMatch = trimmed.match(/^(?:-\s*)?comment\s*:\s*(.*)$/);
+            if (idMatch) {
+                suppressions.push({ checkId: idMatch[1], line, kind: 'cloudformation' });
+            }
+            if (commentMatch && suppressions.length > 0) {
+                suppressions[suppressions.length - 1].reason = cleanReason(commentMatch[1]);
+            }
+        } else if (/^skip\s*:\s*$/.test(trimmed) && previousKey === 'checkov') {
+            skipIndent = indent;
+        }
+        previousKey = trimmed.match(/^["']?([\w-]+)["']?\s*:\s*$/)?.[1];
+    });
+    return suppressions;
+};
+
+const findJsonCloudFormationSkips = (text: string): FoundSuppression[] => {
+    const lineOf = (offset: number) => text.substring(0, offset).split('\n').length - 1;
+    return [...text.matchAll(jsonSkipListPattern)].flatMap(listMatch => {
+        const listOffset = (listMatch.index || 0) + listMatch[0].indexOf('[');
+        return [...listMatch[1].matchAll(jsonSkipPattern)].map((match): FoundSuppression => ({
+            checkId: match[1],
+            reason: cleanReason(match[2]),
+            line: lineOf(listOffset + (match.index || 0)),
+            kind: 'cloudformation'
+        }));
+    });
+};
+
+/**
+ * Finds all suppressions in the content of a file: inline skip comments, Kubernetes skip annotations and CloudFormation metadata skips
+ */
+export const findSuppressions = (fileName: string, text: string): FoundSuppression[] => {
+    if (!text.includes('checkov')) return [];
+
+    const lines = text.split(/\r?\n/);
+    const inlineSuppressions = lines.flatMap((lineText, line): FoundSuppression[] => {
+        const annotationMatch = lineText.match(annotationPattern);
+        if (annotationMatch) {
+            return [{ checkId: annotationMatch[1], reason: cleanReason(annotationMatch[2]), line, kind: 'kubernetes' }];
+        }
+        const commentMatch = lineText.match(commentPattern);
+        return commentMatch ? [{ checkId: commentMatch[1], reason: cleanReason(commentMatch[2]), line, kind: 'comment' }] : [];
+    });
+    const metadataSuppressions = fileName.endsWith('.json') ? findJsonCloudFormationSkips(text) : findCloudFormationSkips(lines);
+    return [...inlineSuppressions, ...metadataSuppressions].sort((a, b) => a.line - b.line);
+};
+
+const isKnownCheckId = (checkId: string, scannedCheckIds: Set<string>): boolean => {
+    if (scannedCheckIds.has(checkId) || checkId.startsWith('BC_')) return true;
+    const severityProvider = getSeverityProvider();
+    // without mappings there is nothing to tell unknown checks apart
+    return severityProvider.getStatistics().totalMappings === 0 || severityProvider.getSeverity(checkId) !== null;
+};
+
+/**
+ * Flags suppressions without a real reason, of unknown checks, or that no longer suppress anything.
+ * Staleness is only known for files covered by a scan, whose skipped checks are given.
+ */
+export const auditSuppressions = (suppressions: FoundSuppression[], skippedChecks: FailedCheckovCheck[] | undefined, scannedCheckIds: Set<string>): Suppression[] => {
+    const skippedCheckIds = new Set(skippedChecks?.map(skippedCheck => skippedCheck.checkId));
+    return suppressions.map(suppression => ({
+        ...suppression,
+        issues: [
+            ...(!suppression.reason || suppression.reason === SKIP_REASON_PLACEHOLDER ? ['missingReason' as const] : []),
+            ...(!isKnownCheckId(suppression.checkId, scannedCheckIds) ? ['unknownCheck' as const] : []),
+            ...(skippedChecks && !skippedCheckIds.has(suppression.checkId) ? ['stale' as const] : [])
+        ]
+    }));
+};
+
+export const applySuppressionDiagnostics = (uri: vscode.Uri, diagnostics: vscode.DiagnosticCollection, suppressions: Suppression[]): void => {
+    diagnostics.set(uri, suppressions.flatMap(suppression => suppression.issues.map(issue => {
+        const range = new vscode.Range(suppression.line, 0, suppression.line, Number.MAX_SAFE_INTEGER);
+        const diagnostic = new vscode.Diagnostic(range, issueMessages[issue](suppression),
+            issue === 'stale' ? vscode.DiagnosticSeverity.Information : vscode.DiagnosticSeverity.Warning);
+        diagnostic.source = SUPPRESSION_DIAGNOSTIC_SOURCE;
+        diagnostic.code = suppression.checkId;
+        if (issue === 'stale') {
+            diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+        }
+        return diagnostic;
+    })));
+};
+
+interface FileNode {
+    kind: 'file';
+    uri: vscode.Uri;
+}
+
+interface SuppressionNode {
+    kind: 'suppression';
+    uri: vscode.Uri;
+    suppression: Suppression;
+}
+
+export type SuppressionsTreeNode = FileNode | SuppressionNode;
+
+/**
+ * Inventory of the suppressions in the workspace, grouped by file
+ */
+export class SuppressionsTreeDataProvider implements vscode.TreeDataProvider<SuppressionsTreeNode> {
+    private readonly suppressions: Map<string, { uri: vscode.Uri, suppressions: Suppression[] }> = new Map();
+    private readonly changeEmitter = new vscode.EventEmitter<SuppressionsTreeNode | undefined>();
+
+    readonly onDidChangeTreeData: vscode.Event<SuppressionsTreeNode | undefined> = this.changeEmitter.event;
+
+    /**
+     * Replace the suppressions of a single file; an empty list removes the file from the tree
+     */
+    setSuppressions(uri: vscode.Uri, suppressions: Suppression[]): void {
+        if (suppressions.length > 0) {
+            this.suppressions.set(uri.toString(), { uri, suppressions });
+        } else {
+            this.suppressions.delete(uri.toString());
+        }
+        this.changeEmitter.fire(undefined);
+    }
+
+    getSuppressions(uri: vscode.Uri): Suppression[] {
+        return this.suppressions.get(uri.toString())?.suppressions || [];
+    }
+
+    clear(): void {
+        this.suppressions.clear();
+        this.changeEmitter.fire(undefined);
+    }
+
+    getTreeItem(node: SuppressionsTreeNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'file': {
+                const suppressions = this.getSuppressions(node.uri);
+                const item = new vscode.TreeItem(node.uri, vscode.TreeItemCollapsibleState.Expanded);
+                const withIssues = suppressions.filter(suppression => suppression.issues.length > 0).length;
+                item.description = `${suppressions.length} suppressions${withIssues > 0 ? `, ${withIssues} with issues` : ''}`;
+                return item;
+            }
+            case 'suppression': {
+                const { suppression } = node;
+                const item = new vscode.TreeItem(suppression.checkId, vscode.TreeItemCollapsibleState.None);
+                item.description = suppression.reason || '(no reason)';
+                item.tooltip = [`line ${suppression.line + 1}`, ...suppression.issues.map(issue => issueMessages[issue](suppression))].join('\n');
+                item.iconPath = new vscode.ThemeIcon(suppression.issues.length > 0 ? 'warning' : 'pass');
+                item.contextValue = 'checkovSuppression';
+                item.command = {
+                    title: 'Open suppression',
+                    command: 'vscode.open',
+                    arguments: [node.uri, { selection: new vscode.Range(suppression.line, 0, suppression.line, 0) }]
+                };
+                return item;
+            }
+        }
+    }
+
+    getChildren(node?: SuppressionsTreeNode): SuppressionsTreeNode[] {
+        if (!node) {
+            return [...this.suppressions.values()]
+                .sort((a, b) => a.uri.fsPath.localeCompare(b.uri.fsPath))
+                .map(({ uri }) => ({ kind: 'file', uri }));
+        }
+        return node.kind === 'file' ? this.getSuppressions(node.uri).map(suppression => ({ kind: 'suppression', uri: node.uri, suppression })) : [];
+    }
+}
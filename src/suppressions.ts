@@ -0,0 +1,262 @@
+import * as vscode from 'vscode';
+import { FailedCheckovCheck } from './checkov';
+
+export const SKIP_REASON_PLACEHOLDER = 'ADD REASON';
+
+type SuppressionStyle = 'comment' | 'kubernetes' | 'cloudformation';
+
+interface SuppressionInsert {
+    position: vscode.Position;
+    text: string;
+}
+
+const getCommentStringByFileName = (file: string): string => {
+    const specialFilesDict: { [key: string]: string } = {
+        ts: '//',
+        js: '//',
+        go: '//',
+        java: '//',
+        cpp: '//',
+        cc: '//',
+        cs: '//',
+        php: '//',
+        swift: '//'
+    };
+
+    const parts = file.split('.');
+    const fileType = parts[parts.length - 1];
+
+    return specialFilesDict[fileType] || '#';
+};
+
+const isJsonDocument = (document: vscode.TextDocument): boolean => document.languageId.startsWith('json') || document.fileName.endsWith('.json');
+
+/**
+ * Results cached before the check type was recorded fall back to the check ID and the content of the document
+ */
+const getSuppressionStyle = (document: vscode.TextDocument, checkovCheck: FailedCheckovCheck): SuppressionStyle => {
+    if (checkovCheck.checkType === 'kubernetes' || (!checkovCheck.checkType && checkovCheck.checkId.includes('_K8S_'))) {
+        return 'kubernetes';
+    }
+    if (checkovCheck.checkType === 'cloudformation'
+        || (!checkovCheck.checkType && /^\s*"?(AWSTemplateFormatVersion|Resources)"?\s*:/m.test(document.getText()))) {
+        return 'cloudformation';
+    }
+    return 'comment';
+};
+
+const indentOf = (text: string): number => text.length - text.trimStart().length;
+
+const isBlankOrComment = (text: string): boolean => /^\s*(#.*)?$/.test(text);
+
+/**
+ * Returns the last line of the YAML node starting at the given line, i.e. the last line of its nested content.
+ * List items may sit at the same indentation as the key they belong to.
+ */
+const getYamlNodeLastLine = (document: vscode.TextDocument, line: number, maxLine: number): number => {
+    const nodeText = document.lineAt(line).text;
+    const nodeIndent = indentOf(nodeText);
+    const isListItem = nodeText.trimStart().startsWith('-');
+    let lastLine = line;
+    for (let i = line + 1; i <= maxLine; i++) {
+        const text = document.lineAt(i).text;
+        if (isBlankOrComment(text)) continue;
+        const indent = indentOf(text);
+        if (indent < nodeIndent || (indent === nodeIndent && (isListItem || !text.trimStart().startsWith('-')))) break;
+        lastLine = i;
+    }
+    return lastLine;
+};
+
+/**
+ * Returns the indentation of the entries of a YAML mapping, given as its first and last line
+ */
+const getYamlEntryIndent = (document: vscode.TextDocument, firstLine: number, lastLine: number): number | undefined => {
+    for (let i = firstLine; i <= lastLine; i++) {
+        const text = document.lineAt(i).text;
+        if (!isBlankOrComment(text)) return indentOf(text);
+    }
+    return undefined;
+};
+
+/**
+ * Finds the line of the `key:` entry of a YAML mapping, given as its first and last line
+ */
+const findYamlKey = (document: vscode.TextDocument, firstLine: number, lastLine: number, key: string): number | undefined => {
+    const entryIndent = getYamlEntryIndent(document, firstLine, lastLine);
+    const keyPattern = new RegExp(`^["']?${key}["']?\\s*:(\\s|$)`);
+    for (let i = firstLine; i <= lastLine; i++) {
+        const text = document.lineAt(i).text;
+        if (!isBlankOrComment(text) && indentOf(text) === entryIndent && keyPattern.test(text.trimStart())) return i;
+    }
+    return undefined;
+};
+
+// A key followed by an inline value, e.g. `annotations: {}`, cannot be extended line by line
+const hasInlineValue = (document: vscode.TextDocument, line: number): boolean => !/:\s*(#.*)?$/.test(document.lineAt(line).text);
+
+const insertAfterLine = (document: vscode.TextDocument, line: number, lines: string[]): SuppressionInsert => ({
+    position: document.lineAt(line).range.end,
+    text: lines.map(text => `\n${text}`).join('')
+});
+
+const pad = (indent: number): string => ' '.repeat(indent);
+
+/**
+ * Checkov reads inline skip comments from anywhere inside the resource block, so they go on the line after its header.
+ * A block opened and closed on its header line, e.g. `resource "aws_s3_bucket" "data" {}`, has no line inside it for one.
+ */
+const createCommentSuppression = (document: vscode.TextDocument, checkovChecks: FailedCheckovCheck[]): SuppressionInsert | undefined => {
+    const [line, lastLine] = checkovChecks[0].fileLineRange;
+    if (line >= document.lineCount) return undefined;
+    if (lastLine <= line && line > 0 && /[{[]/.test(document.lineAt(line - 1).text)) return undefined;
+
+    const lineText = document.lineAt(line).text;
+    const headerIndent = indentOf(document.lineAt(Math.max(line - 1, 0)).text);
+    // the block may be empty, in which case the line after the header closes it
+    const indent = isBlankOrComment(lineText) || /^\s*[}\])]/.test(lineText) ? headerIndent + 2 : indentOf(lineText);
+    const commentString = getCommentStringByFileName(document.fileName);
+    return {
+        position: document.lineAt(line).range.start,
+        text: checkovChecks.map(checkovCheck => `${pad(indent)}${commentString} checkov:skip=${checkovCheck.checkId}: ${SKIP_REASON_PLACEHOLDER}\n`).join('')
+    };
+};
+
+/**
+ * Kubernetes manifests are suppressed through `checkov.io/skipN` annotations in the metadata of the resource
+ */
+const createKubernetesSuppression = (document: vscode.TextDocument, checkovChecks: FailedCheckovCheck[]): SuppressionInsert | undefined => {
+    if (isJsonDocument(document)) return undefined;
+    const firstLine = checkovChecks[0].fileLineRange[0] - 1;
+    const lastLine = Math.min(checkovChecks[0].fileLineRange[1] - 1, document.lineCount - 1);
+    if (firstLine < 0 || firstLine > lastLine) return undefined;
+
+    const metadataLine = findYamlKey(document, firstLine, lastLine, 'metadata');
+    if (metadataLine === undefined || hasInlineValue(document, metadataLine)) return undefined;
+    const metadataLastLine = getYamlNodeLastLine(document, metadataLine, lastLine);
+    const metadataIndent = indentOf(document.lineAt(metadataLine).text);
+    const entryIndent = getYamlEntryIndent(document, metadataLine + 1, metadataLastLine) ?? metadataIndent + 2;
+    const toAnnotation = (index: number, checkovCheck: FailedCheckovCheck) => `checkov.io/skip${index}: ${checkovCheck.checkId}=${SKIP_REASON_PLACEHOLDER}`;
+
+    const annotationsLine = findYamlKey(document, metadataLine + 1, metadataLastLine, 'annotations');
+    if (annotationsLine === undefined) {
+        return insertAfterLine(document, metadataLine, [
+            `${pad(entryIndent)}annotations:`,
+            ...checkovChecks.map((checkovCheck, index) => `${pad(entryIndent + 2)}${toAnnotation(index + 1, checkovCheck)}`)
+        ]);
+    }
+    if (hasInlineValue(document, annotationsLine)) return undefined;
+
+    // continue the numbering of any existing skip annotations
+    const annotationsLastLine = getYamlNodeLastLine(document, annotationsLine, metadataLastLine);
+    let skipIndex = 0;
+    for (let i = annotationsLine + 1; i <= annotationsLastLine; i++) {
+        const match = document.lineAt(i).text.match(/checkov\.io\/skip(\d+)/);
+        skipIndex = match ? Math.max(skipIndex, parseInt(match[1])) : skipIndex;
+    }
+    const annotationIndent = getYamlEntryIndent(document, annotationsLine + 1, annotationsLastLine) ?? entryIndent + 2;
+    return insertAfterLine(document, annotationsLastLine,
+        checkovChecks.map((checkovCheck, index) => `${pad(annotationIndent)}${toAnnotation(skipIndex + index + 1, checkovCheck)}`));
+};
+
+/**
+ * CloudFormation resources are suppressed through a `Metadata.checkov.skip` list on the resource
+ */
+const createCloudFormationSuppression = (document: vscode.TextDocument, checkovChecks: FailedCheckovCheck[]): SuppressionInsert | undefined => {
+    const headerLine = checkovChecks[0].fileLineRange[0] - 1;
+    const lastLine = Math.min(checkovChecks[0].fileLineRange[1] - 1, document.lineCount - 1);
+    if (headerLine < 0 || headerLine >= lastLine) return undefined;
+
+    const headerIndent = indentOf(document.lineAt(headerLine).text);
+    const propertyIndent = getYamlEntryIndent(document, headerLine + 1, lastLine) ?? headerIndent + 2;
+
+    if (isJsonDocument(document)) {
+        // existing metadata would have to be merged into, which is only supported for YAML templates
+        const blockText = document.getText(new vscode.Range(headerLine, 0, lastLine, 0));
+        if (/"Metadata"\s*:/.test(blockText) || !document.lineAt(headerLine).text.trimEnd().endsWith('{')) return undefined;
+        const skipEntries = checkovChecks.map(checkovCheck => `{"id": "${checkovCheck.checkId}", "comment": "${SKIP_REASON_PLACEHOLDER}"}`).join(', ');
+        return insertAfterLine(document, headerLine, [`${pad(propertyIndent)}"Metadata": {"checkov": {"skip": [${skipEntries}]}},`]);
+    }
+
+    const indentUnit = propertyIndent > headerIndent ? propertyIndent - headerIndent : 2;
+    const toSkipItem = (itemIndent: number) => (checkovCheck: FailedCheckovCheck) => [
+        `${pad(itemIndent)}- id: ${checkovCheck.checkId}`,
+        `${pad(itemIndent + 2)}comment: ${SKIP_REASON_PLACEHOLDER}`
+    ];
+    const resourceLastLine = getYamlNodeLastLine(document, headerLine, lastLine);
+    const metadataLine = findYamlKey(document, headerLine + 1, resourceLastLine, 'Metadata');
+    if (metadataLine === undefined) {
+        return insertAfterLine(document, headerLine, [
+            `${pad(propertyIndent)}Metadata:`,
+            `${pad(propertyIndent + indentUnit)}checkov:`,
+            `${pad(propertyIndent + indentUnit * 2)}skip:`,
+            ...checkovChecks.flatMap(toSkipItem(propertyIndent + indentUnit * 3))
+        ]);
+    }
+    if (hasInlineValue(document, metadataLine)) return undefined;
+
+    const metadataLastLine = getYamlNodeLastLine(document, metadataLine, resourceLastLine);
+    const checkovLine = findYamlKey(document, metadataLine + 1, metadataLastLine, 'checkov');
+    if (checkovLine === undefined) {
+        const metadataEntryIndent = getYamlEntryIndent(document, metadataLine + 1, metadataLastLine) ?? propertyIndent + indentUnit;
+        return insertAfterLine(document, metadataLine, [
+            `${pad(metadataEntryIndent)}checkov:`,
+            `${pad(metadataEntryIndent + indentUnit)}skip:`,
+            ...checkovChecks.flatMap(toSkipItem(metadataEntryIndent + indentUnit * 2))
+        ]);
+    }
+    if (hasInlineValue(document, checkovLine)) return undefined;
+
+    const checkovLastLine = getYamlNodeLastLine(document, checkovLine, metadataLastLine);
+    const checkovEntryIndent = getYamlEntryIndent(document, checkovLine + 1, checkovLastLine) ?? indentOf(document.lineAt(checkovLine).text) + indentUnit;
+    const skipLine = findYamlKey(document, checkovLine + 1, checkovLastLine, 'skip');
+    if (skipLine === undefined) {
+        return insertAfterLine(document, checkovLine, [
+            `${pad(checkovEntryIndent)}skip:`,
+            ...checkovChecks.flatMap(toSkipItem(checkovEntryIndent + indentUnit))
+        ]);
+    }
+    if (hasInlineValue(document, skipLine)) return undefined;
+
+    const skipLastLine = getYamlNodeLastLine(document, skipLine, checkovLastLine);
+    const itemIndent = getYamlEntryIndent(document, skipLine + 1, skipLastLine) ?? checkovEntryIndent + indentUnit;
+    return insertAfterLine(document, skipLastLine, checkovChecks.flatMap(toSkipItem(itemIndent)));
+};
+
+const suppressionBuilders: Record<SuppressionStyle, (document: vscode.TextDocument, checkovChecks: FailedCheckovCheck[]) => SuppressionInsert | undefined> = {
+    comment: createCommentSuppression,
+    kubernetes: createKubernetesSuppression,
+    cloudformation: createCloudFormationSuppression
+};
+
+/**
+ * Groups checks that are suppressed at the same place, so each group is written as a single insert
+ */
+const groupChecksBySuppression = (document: vscode.TextDocument, checkovChecks: FailedCheckovCheck[]): Map<string, [SuppressionStyle, FailedCheckovCheck[]]> => {
+    const groups = new Map<string, [SuppressionStyle, FailedCheckovCheck[]]>();
+    for (const checkovCheck of checkovChecks) {
+        const style = getSuppressionStyle(document, checkovCheck);
+        const key = `${style}-${checkovCheck.fileLineRange[0]}`;
+        const [, groupChecks] = groups.get(key) || [style, []];
+        groups.set(key, [style, [...groupChecks, checkovCheck]]);
+    }
+    return groups;
+};
+
+export const canSuppressCheck = (document: vscode.TextDocument, checkovCheck: FailedCheckovCheck): boolean =>
+    suppressionBuilders[getSuppressionStyle(document, checkovCheck)](document, [checkovCheck]) !== undefined;
+
+/**
+ * Suppresses all the given checks, which may share a resource, in a single edit, in the way their framework supports:
+ * inline comments inside the resource block, Kubernetes annotations or CloudFormation metadata
+ */
+export const createSuppressionEdit = (document: vscode.TextDocument, checkovChecks: FailedCheckovCheck[]): vscode.WorkspaceEdit => {
+    const edit = new vscode.WorkspaceEdit();
+    for (const [style, groupChecks] of groupChecksBySuppression(document, checkovChecks).values()) {
+        const suppression = suppressionBuilders[style](document, groupChecks);
+        if (suppression) {
+            edit.insert(document.uri, suppression.position, suppression.text);
+        }
+    }
+    return edit;
+};
@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import { FailedCheckovCheck } from '../../checkov';
+import { getNextAcceptanceExpiry, isAcceptanceExpired, isOpenFinding } from '../../acceptances';
+
+const failedCheck = (checkId: string, expires?: string): FailedCheckovCheck => ({
+    checkId,
+    checkName: checkId,
+    fileLineRange: [1, 5],
+    resource: 'aws_s3_bucket.data',
+    acceptance: expires ? { owner: 'platform-team', expires } : undefined
+});
+
+suite('Risk acceptances', () => {
+    test('hold until the end of their expiry day', () => {
+        const acceptance = { owner: 'platform-team', expires: '2026-03-01' };
+        assert.strictEqual(isAcceptanceExpired(acceptance, new Date('2026-02-28T12:00:00')), false);
+        assert.strictEqual(isAcceptanceExpired(acceptance, new Date('2026-03-01T23:59:00')), false);
+        assert.strictEqual(isAcceptanceExpired(acceptance, new Date('2026-03-02T00:00:00')), true);
+    });
+
+    test('hide findings until they expire', () => {
+        assert.strictEqual(isOpenFinding(failedCheck('CKV_AWS_20', '2999-01-01')), false);
+        assert.strictEqual(isOpenFinding(failedCheck('CKV_AWS_20', '2000-01-01')), true);
+        assert.strictEqual(isOpenFinding(failedCheck('CKV_AWS_20')), true);
+    });
+
+    test('find the next acceptance to expire', () => {
+        const now = new Date('2026-02-01T12:00:00');
+        const checks = [failedCheck('CKV_AWS_18'), failedCheck('CKV_AWS_19', '2026-01-31'), failedCheck('CKV_AWS_20', '2026-05-01'), failedCheck('CKV_AWS_21', '2026-03-01')];
+        assert.deepStrictEqual(getNextAcceptanceExpiry(checks, now), new Date('2026-03-01T23:59:59.999'));
+    });
+
+    test('have no next expiry once all of them expired', () => {
+        const now = new Date('2026-02-01T12:00:00');
+        assert.strictEqual(getNextAcceptanceExpiry([failedCheck('CKV_AWS_18'), failedCheck('CKV_AWS_19', '2026-01-31')], now), undefined);
+    });
+});
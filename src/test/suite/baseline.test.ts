@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import winston from 'winston';
+import { FailedCheckovCheck } from '../../checkov';
+import { BASELINE_FILE_NAME, markBaselinedChecks } from '../../baseline';
+
+const logger = winston.createLogger({ silent: true });
+
+const failedCheck = (checkId: string, resource: string): FailedCheckovCheck => ({
+    checkId,
+    checkName: checkId,
+    fileLineRange: [1, 5],
+    resource
+});
+
+suite('Baseline', () => {
+    let workspacePath: string;
+    let baselinePath: string;
+
+    setup(() => {
+        workspacePath = mkdtempSync(path.join(os.tmpdir(), 'checkov-baseline-test-'));
+        baselinePath = path.join(workspacePath, BASELINE_FILE_NAME);
+        writeFileSync(baselinePath, JSON.stringify({
+            failed_checks: [
+                { file: '/modules/s3/main.tf', findings: [{ resource: 'aws_s3_bucket.data', check_ids: ['CKV_AWS_20', 'CKV_AWS_21'] }] }
+            ]
+        }));
+    });
+
+    teardown(() => {
+        rmSync(workspacePath, { recursive: true, force: true });
+    });
+
+    test('marks the findings that are part of the baseline', () => {
+        const filePath = path.join(workspacePath, 'modules', 's3', 'main.tf');
+        const checks = [failedCheck('CKV_AWS_20', 'aws_s3_bucket.data'), failedCheck('CKV_AWS_18', 'aws_s3_bucket.data'), failedCheck('CKV_AWS_21', 'aws_s3_bucket.logs')];
+        assert.deepStrictEqual(markBaselinedChecks(logger, filePath, checks, baselinePath).map(check => check.baselined), [true, false, false]);
+    });
+
+    test('leaves files the baseline does not list unmarked', () => {
+        const checks = [failedCheck('CKV_AWS_20', 'aws_s3_bucket.data')];
+        assert.deepStrictEqual(markBaselinedChecks(logger, path.join(workspacePath, 'main.tf'), checks, baselinePath), checks);
+        assert.deepStrictEqual(markBaselinedChecks(logger, path.join(os.tmpdir(), 'modules', 's3', 'main.tf'), checks, baselinePath), checks);
+    });
+
+    test('ignores an unreadable baseline', () => {
+        writeFileSync(baselinePath, '{');
+        const checks = [failedCheck('CKV_AWS_20', 'aws_s3_bucket.data')];
+        assert.deepStrictEqual(markBaselinedChecks(logger, path.join(workspacePath, 'modules', 's3', 'main.tf'), checks, baselinePath), checks);
+    });
+});
@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { FailedCheckovCheck } from '../../checkov';
+import { getFailedChecksNotInBase } from '../../branchDiff';
+
+const failedCheck = (checkId: string, resource: string, fileLineRange: [number, number] = [1, 5]): FailedCheckovCheck => ({
+    checkId,
+    checkName: checkId,
+    fileLineRange,
+    resource
+});
+
+suite('Branch diff', () => {
+    test('drops findings that exist on the base branch, wherever they moved', () => {
+        const current = [failedCheck('CKV_AWS_20', 'aws_s3_bucket.data', [10, 20]), failedCheck('CKV_AWS_21', 'aws_s3_bucket.data', [10, 20])];
+        const base = [failedCheck('CKV_AWS_20', 'aws_s3_bucket.data', [1, 5])];
+        assert.deepStrictEqual(getFailedChecksNotInBase(current, base), [current[1]]);
+    });
+
+    test('matches findings by resource as well as check', () => {
+        const current = [failedCheck('CKV_AWS_20', 'aws_s3_bucket.logs')];
+        const base = [failedCheck('CKV_AWS_20', 'aws_s3_bucket.data')];
+        assert.deepStrictEqual(getFailedChecksNotInBase(current, base), current);
+    });
+
+    test('cancels out each base finding at most once', () => {
+        const current = [failedCheck('CKV_AWS_20', 'aws_s3_bucket.data'), failedCheck('CKV_AWS_20', 'aws_s3_bucket.data', [8, 9])];
+        const base = [failedCheck('CKV_AWS_20', 'aws_s3_bucket.data')];
+        assert.deepStrictEqual(getFailedChecksNotInBase(current, base), [current[1]]);
+    });
+
+    test('keeps every finding without base results', () => {
+        const current = [failedCheck('CKV_AWS_20', 'aws_s3_bucket.data')];
+        assert.deepStrictEqual(getFailedChecksNotInBase(current, []), current);
+    });
+});
@@ -0,0 +1,37 @@
+import * as assert from 'assert';
+import { parseCheckovCatalog } from '../../checkov/checkovCatalog';
+
+suite('Checkov check catalog', () => {
+    test('parses the JSON list of checks', () => {
+        const output = JSON.stringify([
+            { id: 'CKV_AWS_20', type: 'resource', entity: 'aws_s3_bucket', policy: 'S3 Bucket has an ACL defined which allows public READ access.', iac: 'Terraform', guideline: 'https://docs.example.com/CKV_AWS_20' },
+            { id: 'CKV2_GHA_1', type: 'jobs', entity: 'jobs', policy: 'Ensure top-level permissions are not set to write-all', iac: 'github_actions' }
+        ]);
+        assert.deepStrictEqual(parseCheckovCatalog(output), [
+            { checkId: 'CKV_AWS_20', name: 'S3 Bucket has an ACL defined which allows public READ access.', framework: 'Terraform', type: 'resource', entity: 'aws_s3_bucket', guideline: 'https://docs.example.com/CKV_AWS_20' },
+            { checkId: 'CKV2_GHA_1', name: 'Ensure top-level permissions are not set to write-all', framework: 'github_actions', type: 'jobs', entity: 'jobs', guideline: undefined }
+        ]);
+    });
+
+    test('parses JSON grouped by framework', () => {
+        const output = JSON.stringify({ terraform: [{ 'Check ID': 'CKV_AWS_20', 'Check Name': 'S3 ACL', Framework: 'terraform' }] });
+        assert.deepStrictEqual(parseCheckovCatalog(output).map(check => [check.checkId, check.name, check.framework]), [['CKV_AWS_20', 'S3 ACL', 'terraform']]);
+    });
+
+    test('falls back to the table older Checkov versions print', () => {
+        const output = [
+            '|    | Id          | Type     | Entity        | Policy                          | IaC       | Resource Guidelines |',
+            '|----|-------------|----------|---------------|---------------------------------|-----------|---------------------|',
+            '|  0 | CKV_AWS_20  | resource | aws_s3_bucket | S3 Bucket has a public READ ACL | Terraform |                     |',
+            '|  1 | CKV_K8S_21  | resource | Pod           | The default namespace is used   | Kubernetes|                     |'
+        ].join('\n');
+        assert.deepStrictEqual(parseCheckovCatalog(output).map(check => [check.checkId, check.name, check.framework, check.entity]), [
+            ['CKV_AWS_20', 'S3 Bucket has a public READ ACL', 'Terraform', 'aws_s3_bucket'],
+            ['CKV_K8S_21', 'The default namespace is used', 'Kubernetes', 'Pod']
+        ]);
+    });
+
+    test('returns no checks for unexpected output', () => {
+        assert.deepStrictEqual(parseCheckovCatalog('Checkov failed to start'), []);
+    });
+});
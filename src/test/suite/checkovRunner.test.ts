@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import winston from 'winston';
+import { CheckovResponse, FailedCheckovCheck, splitCheckovResponse } from '../../checkov';
+
+const logger = winston.createLogger({ silent: true });
+
+const failedCheck = (checkId: string, filePath: string, fileAbsPath?: string): FailedCheckovCheck => ({
+    checkId,
+    checkName: checkId,
+    fileLineRange: [1, 5],
+    resource: 'aws_s3_bucket.data',
+    filePath,
+    fileAbsPath
+});
+
+suite('Checkov runner', () => {
+    // outside of any workspace folder, so Checkov reports them by their full path or their base name
+    const directory = path.join(os.tmpdir(), 'checkov-runner-test');
+    const mainFile = path.join(directory, 'main.tf');
+    const variablesFile = path.join(directory, 'variables.tf');
+
+    test('routes the findings of a batch scan to each file by absolute path', () => {
+        const response: CheckovResponse = {
+            results: {
+                failedChecks: [failedCheck('CKV_AWS_20', mainFile), failedCheck('CKV_AWS_21', variablesFile), failedCheck('CKV_AWS_18', mainFile)],
+                skippedChecks: [failedCheck('CKV_AWS_19', variablesFile)]
+            }
+        };
+        const responses = splitCheckovResponse(logger, response, [mainFile, variablesFile]);
+        assert.deepStrictEqual(responses.get(mainFile)?.results.failedChecks.map(check => check.checkId), ['CKV_AWS_20', 'CKV_AWS_18']);
+        assert.deepStrictEqual(responses.get(variablesFile)?.results.failedChecks.map(check => check.checkId), ['CKV_AWS_21']);
+        assert.deepStrictEqual(responses.get(variablesFile)?.results.skippedChecks?.map(check => check.checkId), ['CKV_AWS_19']);
+    });
+
+    test('routes findings by the paths Checkov reports in the container', () => {
+        const response: CheckovResponse = {
+            results: { failedChecks: [failedCheck('CKV_AWS_20', '/main.tf', '/checkovScan/main.tf'), failedCheck('CKV_AWS_21', '/variables.tf')] }
+        };
+        const responses = splitCheckovResponse(logger, response, [mainFile, variablesFile]);
+        assert.deepStrictEqual(responses.get(mainFile)?.results.failedChecks.map(check => check.checkId), ['CKV_AWS_20']);
+        assert.deepStrictEqual(responses.get(variablesFile)?.results.failedChecks.map(check => check.checkId), ['CKV_AWS_21']);
+    });
+
+    test('gives files without findings an empty response and drops findings of other files', () => {
+        const response: CheckovResponse = { results: { failedChecks: [failedCheck('CKV_AWS_20', '/other/main.tf')] } };
+        const responses = splitCheckovResponse(logger, response, [mainFile]);
+        assert.deepStrictEqual(responses.get(mainFile), { results: { failedChecks: [], skippedChecks: [] } });
+    });
+});
@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { validateConfigDocument } from '../../configLanguage';
+
+const validate = async (content: string): Promise<vscode.Diagnostic[]> =>
+    validateConfigDocument(await vscode.workspace.openTextDocument({ language: 'yaml', content }));
+
+suite('Checkov config validation', () => {
+    test('accepts a valid config', async () => {
+        const diagnostics = await validate('framework:\n  - terraform\n  - sast\nskip-check:\n  - CKV_AWS_20\nskip_fixes: true\ncompact: true\n');
+        assert.deepStrictEqual(diagnostics, []);
+    });
+
+    test('reports YAML syntax errors', async () => {
+        const [diagnostic] = await validate('framework: [terraform\n');
+        assert.strictEqual(diagnostic.severity, vscode.DiagnosticSeverity.Error);
+    });
+
+    test('requires a mapping of options', async () => {
+        const diagnostics = await validate('- terraform\n');
+        assert.strictEqual(diagnostics.length, 1);
+        assert.strictEqual(diagnostics[0].severity, vscode.DiagnosticSeverity.Error);
+    });
+
+    test('suggests the closest option for an unknown one', async () => {
+        const [diagnostic] = await validate('skip-chek: CKV_AWS_20\n');
+        assert.strictEqual(diagnostic.message, 'Unknown Checkov option \'skip-chek\', did you mean \'skip-check\'?');
+        assert.strictEqual(diagnostic.severity, vscode.DiagnosticSeverity.Information);
+        assert.deepStrictEqual([diagnostic.range.start.line, diagnostic.range.start.character, diagnostic.range.end.character], [0, 0, 9]);
+    });
+
+    test('reports values of the wrong type', async () => {
+        const [diagnostic] = await validate('compact: yes please\n');
+        assert.strictEqual(diagnostic.message, '\'compact\' expects a boolean');
+    });
+
+    test('reports unknown frameworks', async () => {
+        const diagnostics = await validate('framework: terraform,terraformm\n');
+        assert.deepStrictEqual(diagnostics.map(diagnostic => diagnostic.message), ['Unknown framework \'terraformm\'']);
+    });
+});
@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { execFileSync, spawn, spawnSync } from 'child_process';
+import { getKillWorkerProcessArgs, WORKER_RUN_ENV } from '../../checkov/containerPool';
+
+suite('Container pool', () => {
+    test('kills the worker processes of a run, and only those', async function () {
+        // the worker runs the script with the image's python3 on Linux; without one here it cannot run
+        if (process.platform !== 'linux' || spawnSync('python3', ['--version']).error) {
+            this.skip();
+        }
+
+        const args = getKillWorkerProcessArgs('checkov-worker', 'run-1');
+        assert.deepStrictEqual(args.slice(0, 4), ['exec', 'checkov-worker', 'python3', '-c']);
+
+        const run = spawn('sleep', ['60'], { env: { ...process.env, [WORKER_RUN_ENV]: 'run-1' } });
+        const otherRun = spawn('sleep', ['60'], { env: { ...process.env, [WORKER_RUN_ENV]: 'run-10' } });
+        const runExit = new Promise(resolve => run.on('exit', (code, signal) => resolve(signal)));
+        try {
+            execFileSync(args[2], args.slice(3));
+            assert.strictEqual(await runExit, 'SIGKILL');
+            assert.strictEqual(otherRun.exitCode, null);
+            assert.strictEqual(otherRun.signalCode, null);
+        } finally {
+            run.kill('SIGKILL');
+            otherRun.kill('SIGKILL');
+        }
+    });
+});
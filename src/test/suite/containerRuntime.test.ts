@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { getContainerRuntime, getImageReference } from '../../checkov/containerRuntime';
+
+suite('Container runtime', () => {
+    test('runs the Checkov version the extension resolved from an image without a tag', () => {
+        const runtime = getContainerRuntime('docker', 'registry.example.com:5000/team/checkov', undefined);
+        assert.deepStrictEqual(runtime, { executable: 'docker', env: {}, repository: 'registry.example.com:5000/team/checkov', pinnedImage: undefined });
+        assert.strictEqual(getImageReference(runtime, '3.2.0'), 'registry.example.com:5000/team/checkov:3.2.0');
+    });
+
+    test('lets an image pinned by tag or digest win over the Checkov version', () => {
+        const taggedRuntime = getContainerRuntime('docker', 'registry.example.com:5000/team/checkov:3.1.0', undefined);
+        assert.strictEqual(taggedRuntime.repository, 'registry.example.com:5000/team/checkov');
+        assert.strictEqual(getImageReference(taggedRuntime, '3.2.0'), 'registry.example.com:5000/team/checkov:3.1.0');
+
+        const digest = 'bridgecrew/checkov@sha256:0123456789abcdef';
+        const digestRuntime = getContainerRuntime('docker', digest, undefined);
+        assert.strictEqual(digestRuntime.repository, 'bridgecrew/checkov');
+        assert.strictEqual(getImageReference(digestRuntime, 'latest'), digest);
+    });
+
+    test('points each runtime at the socket through its own variable', () => {
+        assert.deepStrictEqual(getContainerRuntime('docker', 'bridgecrew/checkov', '/run/user/1000/docker.sock').env, { DOCKER_HOST: 'unix:///run/user/1000/docker.sock' });
+        assert.deepStrictEqual(getContainerRuntime('/opt/podman/bin/podman', 'bridgecrew/checkov', '/run/podman/podman.sock').env, { CONTAINER_HOST: 'unix:///run/podman/podman.sock' });
+        assert.deepStrictEqual(getContainerRuntime('nerdctl.exe', 'bridgecrew/checkov', 'unix:///run/containerd/containerd.sock').env, { CONTAINERD_ADDRESS: '/run/containerd/containerd.sock' });
+        assert.deepStrictEqual(getContainerRuntime('docker', 'bridgecrew/checkov', 'tcp://build-host:2375').env, { DOCKER_HOST: 'tcp://build-host:2375' });
+    });
+});
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { FailedCheckovCheck } from '../../checkov';
+import { shiftFailedChecks } from '../../diagnosticTracking';
+
+const failedCheck = (fileLineRange: [number, number]): FailedCheckovCheck => ({
+    checkId: 'CKV_AWS_20',
+    checkName: 'S3 Bucket has an ACL defined which allows public READ access.',
+    fileLineRange,
+    resource: 'aws_s3_bucket.data'
+});
+
+const change = (startLine: number, startCharacter: number, endLine: number, endCharacter: number, text: string): vscode.TextDocumentContentChangeEvent => ({
+    range: new vscode.Range(startLine, startCharacter, endLine, endCharacter),
+    rangeOffset: 0,
+    rangeLength: 0,
+    text
+});
+
+suite('Diagnostic tracking', () => {
+    test('moves findings down when lines are added above them', () => {
+        const [shifted] = shiftFailedChecks([failedCheck([5, 7])], [change(0, 0, 0, 0, 'a\nb\n')], 20);
+        assert.deepStrictEqual(shifted.fileLineRange, [7, 9]);
+        assert.strictEqual(shifted.stale, undefined);
+    });
+
+    test('moves findings up when lines above them are removed', () => {
+        const [shifted] = shiftFailedChecks([failedCheck([5, 7])], [change(1, 0, 3, 0, '')], 20);
+        assert.deepStrictEqual(shifted.fileLineRange, [3, 5]);
+        assert.strictEqual(shifted.stale, undefined);
+    });
+
+    test('leaves findings above the change as they are', () => {
+        const check = failedCheck([5, 7]);
+        const [shifted] = shiftFailedChecks([check], [change(10, 0, 10, 0, 'a\n')], 20);
+        assert.strictEqual(shifted, check);
+    });
+
+    test('flags findings whose block was edited as stale', () => {
+        const [shifted] = shiftFailedChecks([failedCheck([5, 7])], [change(5, 2, 5, 4, 'x\ny')], 20);
+        assert.deepStrictEqual(shifted.fileLineRange, [5, 8]);
+        assert.strictEqual(shifted.stale, true);
+    });
+
+    test('applies the changes of an event one after the other', () => {
+        const [shifted] = shiftFailedChecks([failedCheck([5, 7])], [change(0, 0, 0, 0, 'a\n'), change(0, 0, 0, 0, 'b\n')], 20);
+        assert.deepStrictEqual(shifted.fileLineRange, [7, 9]);
+    });
+
+    test('keeps findings inside the document', () => {
+        const [shifted] = shiftFailedChecks([failedCheck([5, 7])], [], 6);
+        assert.deepStrictEqual(shifted.fileLineRange, [5, 6]);
+    });
+});
@@ -0,0 +1,23 @@
+import * as assert from 'assert';
+import { createLineDiff } from '../../hoverProvider';
+
+suite('Hover fix diff', () => {
+    test('marks removed, added and unchanged lines', () => {
+        const oldText = 'resource "aws_s3_bucket" "data" {\n  acl = "public-read"\n}';
+        const newText = 'resource "aws_s3_bucket" "data" {\n  acl = "private"\n}\n';
+        assert.strictEqual(createLineDiff(oldText, newText), [
+            '  resource "aws_s3_bucket" "data" {',
+            '-   acl = "public-read"',
+            '+   acl = "private"',
+            '  }'
+        ].join('\n'));
+    });
+
+    test('keeps unchanged lines between additions', () => {
+        assert.strictEqual(createLineDiff('a\nc', 'a\nb\nc\nd'), '  a\n+ b\n  c\n+ d');
+    });
+
+    test('ignores line ending differences', () => {
+        assert.strictEqual(createLineDiff('a\r\nb\r\n', 'a\nb'), '  a\n  b');
+    });
+});
@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import winston from 'winston';
+import { addToConfigList, getConfigFileChain, getConfigList, mergeConfigFiles, readConfig } from '../../parseCheckovConfig';
+
+const logger = winston.createLogger({ silent: true });
+
+suite('Checkov config resolution', () => {
+    let workspacePath: string;
+    let rootConfigPath: string;
+    let moduleConfigPath: string;
+
+    setup(() => {
+        workspacePath = mkdtempSync(path.join(os.tmpdir(), 'checkov-config-test-'));
+        mkdirSync(path.join(workspacePath, 'modules', 's3'), { recursive: true });
+        rootConfigPath = path.join(workspacePath, '.checkov.yaml');
+        moduleConfigPath = path.join(workspacePath, 'modules', '.checkov.yml');
+        writeFileSync(rootConfigPath, 'framework:\n  - terraform\nskip-check:\n  - CKV_AWS_20\nexternal-checks-dir:\n  - checks\n');
+        writeFileSync(moduleConfigPath, 'skip-check:\n  - CKV_AWS_21\nskip_path: tests,s3/examples\nbaseline: ../.checkov.baseline\ncompact: true\n');
+        writeFileSync(path.join(workspacePath, 'modules', 's3', 'main.tf'), '');
+    });
+
+    teardown(() => {
+        rmSync(workspacePath, { recursive: true, force: true });
+    });
+
+    test('walks up from the file to the workspace root', () => {
+        const filePath = path.join(workspacePath, 'modules', 's3', 'main.tf');
+        assert.deepStrictEqual(getConfigFileChain(logger, filePath, workspacePath), [rootConfigPath, moduleConfigPath]);
+    });
+
+    test('scans of a directory start from the directory itself', () => {
+        assert.deepStrictEqual(getConfigFileChain(logger, path.join(workspacePath, 'modules'), workspacePath), [rootConfigPath, moduleConfigPath]);
+        assert.deepStrictEqual(getConfigFileChain(logger, workspacePath, workspacePath), [rootConfigPath]);
+    });
+
+    test('gives files outside of the workspace only the root config', () => {
+        assert.deepStrictEqual(getConfigFileChain(logger, path.join(os.tmpdir(), 'main.tf'), workspacePath), [rootConfigPath]);
+    });
+
+    test('lets the nearest config win when merging', () => {
+        const merged = mergeConfigFiles([rootConfigPath, moduleConfigPath], workspacePath);
+        assert.deepStrictEqual(merged['framework'], ['terraform']);
+        assert.deepStrictEqual(merged['skip-check'], ['CKV_AWS_21']);
+        assert.strictEqual(merged['compact'], true);
+    });
+
+    test('resolves relative paths against the directory of their config', () => {
+        const merged = mergeConfigFiles([rootConfigPath, moduleConfigPath], workspacePath);
+        assert.deepStrictEqual(merged['external-checks-dir'], ['checks']);
+        assert.strictEqual(merged['skip_path'], 'modules/tests,modules/s3/examples');
+        assert.strictEqual(merged['baseline'], '.checkov.baseline');
+    });
+});
+
+suite('Checkov config lists', () => {
+    let tempDir: string;
+    let configPath: string;
+
+    setup(() => {
+        tempDir = mkdtempSync(path.join(os.tmpdir(), 'checkov-config-list-test-'));
+        configPath = path.join(tempDir, '.checkov.yaml');
+    });
+
+    teardown(() => {
+        rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('reads YAML lists and comma separated values', () => {
+        writeFileSync(configPath, 'skip-check:\n  - CKV_AWS_20\n  - CKV_AWS_21\nskip_path: tests, examples\n');
+        const config = readConfig(logger, configPath);
+        assert.deepStrictEqual(getConfigList(config, 'skip-check'), ['CKV_AWS_20', 'CKV_AWS_21']);
+        assert.deepStrictEqual(getConfigList(config, 'skip-path'), ['tests', 'examples']);
+        assert.deepStrictEqual(getConfigList(config, 'soft-fail-on'), []);
+        assert.deepStrictEqual(getConfigList(readConfig(logger, path.join(tempDir, 'missing.yaml')), 'skip-check'), []);
+    });
+
+    test('adds to an existing list, keeping the comments of the file', () => {
+        writeFileSync(configPath, '# shared settings\nskip-check:\n  - CKV_AWS_20 # public website\n');
+        addToConfigList(logger, configPath, 'skip-check', 'CKV_AWS_21');
+        assert.strictEqual(readFileSync(configPath, 'utf8'), '# shared settings\nskip-check:\n  - CKV_AWS_20 # public website\n  - CKV_AWS_21\n');
+    });
+
+    test('keeps comma separated values a string', () => {
+        writeFileSync(configPath, 'skip_path: tests\n');
+        addToConfigList(logger, configPath, 'skip-path', 'examples');
+        assert.deepStrictEqual(getConfigList(readConfig(logger, configPath), 'skip-path'), ['tests', 'examples']);
+        assert.strictEqual(readFileSync(configPath, 'utf8'), 'skip_path: tests,examples\n');
+    });
+
+    test('creates the file and the list with a comment for the value', () => {
+        addToConfigList(logger, configPath, 'soft-fail-on', 'CKV_AWS_20', 'modules/s3/main.tf');
+        assert.deepStrictEqual(getConfigList(readConfig(logger, configPath), 'soft-fail-on'), ['CKV_AWS_20']);
+        assert.strictEqual(readFileSync(configPath, 'utf8'), 'soft-fail-on:\n  - CKV_AWS_20 # modules/s3/main.tf\n');
+    });
+
+    test('refuses to edit a file that is not valid YAML', () => {
+        writeFileSync(configPath, 'skip-check: [CKV_AWS_20\n');
+        assert.throws(() => addToConfigList(logger, configPath, 'skip-check', 'CKV_AWS_21'));
+    });
+});
@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import winston from 'winston';
+import { FailedCheckovCheck } from '../../checkov';
+import { loadCiResults } from '../../ciResults';
+import { createSarifLog, mapSeverityToSarifLevel, SARIF_VERSION } from '../../sarif';
+
+const logger = winston.createLogger({ silent: true });
+
+suite('SARIF export and CI results import', () => {
+    let tempDir: string;
+
+    setup(() => {
+        tempDir = mkdtempSync(path.join(os.tmpdir(), 'checkov-sarif-test-'));
+    });
+
+    teardown(() => {
+        rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('maps severities to SARIF levels', () => {
+        assert.strictEqual(mapSeverityToSarifLevel('CRITICAL'), 'error');
+        assert.strictEqual(mapSeverityToSarifLevel('high'), 'error');
+        assert.strictEqual(mapSeverityToSarifLevel('MEDIUM'), 'warning');
+        assert.strictEqual(mapSeverityToSarifLevel('LOW'), 'note');
+        assert.strictEqual(mapSeverityToSarifLevel('UNKNOWN'), 'warning');
+    });
+
+    test('reads an exported SARIF log back into the same findings', () => {
+        const filePath = path.join(tempDir, 'main.tf');
+        const failedChecks: FailedCheckovCheck[] = [
+            {
+                checkId: 'CKV_AWS_20',
+                checkName: 'S3 Bucket has an ACL defined which allows public READ access.',
+                fileLineRange: [3, 12],
+                resource: 'aws_s3_bucket.data',
+                guideline: 'https://docs.prismacloud.io/en/enterprise-edition/policy-reference/aws-policies/s3-policies/s3-1-acl-read-permissions-everyone'
+            },
+            {
+                checkId: 'CKV_AWS_21',
+                checkName: 'Ensure all data stored in the S3 bucket have versioning enabled',
+                fileLineRange: [3, 12],
+                resource: 'aws_s3_bucket.data'
+            }
+        ];
+
+        const sarifLog = createSarifLog(logger, [{ filePath, failedChecks }], '3.2.0');
+        assert.strictEqual(sarifLog.version, SARIF_VERSION);
+        assert.strictEqual(sarifLog.runs[0].tool.driver.rules?.length, 2);
+
+        const resultsFilePath = path.join(tempDir, 'results_sarif.sarif');
+        writeFileSync(resultsFilePath, JSON.stringify(sarifLog));
+        const imported = loadCiResults(logger, resultsFilePath, false);
+
+        assert.deepStrictEqual(imported.map(check => [check.checkId, check.checkName, check.fileLineRange, check.resource]),
+            failedChecks.map(check => [check.checkId, check.checkName, check.fileLineRange, check.resource]));
+        assert.strictEqual(imported[0].guideline, failedChecks[0].guideline);
+        const importedPath = imported[0].fileAbsPath ? imported[0].fileAbsPath : path.join(tempDir, imported[0].filePath as string);
+        assert.strictEqual(path.resolve(importedPath), path.resolve(filePath));
+    });
+
+    test('reads the Checkov JSON output', () => {
+        const resultsFilePath = path.join(tempDir, 'results_json.json');
+        writeFileSync(resultsFilePath, JSON.stringify({
+            check_type: 'terraform',
+            results: {
+                failed_checks: [{
+                    check_id: 'CKV_AWS_20',
+                    bc_check_id: 'BC_AWS_S3_1',
+                    check_name: 'S3 Bucket has an ACL defined which allows public READ access.',
+                    file_line_range: [3, 12],
+                    resource: 'aws_s3_bucket.data',
+                    file_path: '/main.tf'
+                }]
+            }
+        }));
+
+        const [imported] = loadCiResults(logger, resultsFilePath, true);
+        assert.strictEqual(imported.checkId, 'BC_AWS_S3_1');
+        assert.deepStrictEqual(imported.fileLineRange, [3, 12]);
+        assert.strictEqual(imported.filePath, '/main.tf');
+    });
+});
@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import { lookupSeverity, parseSeverityOverrides, SeverityLayer, SeverityLevel } from '../../severityProvider';
+
+const ignoreInvalid = () => undefined;
+
+suite('Severity layers', () => {
+    const layers: SeverityLayer[] = [
+        ['workspace', new Map([['CKV_AWS_20', SeverityLevel.LOW]])],
+        ['user', new Map([['CKV_AWS_20', SeverityLevel.HIGH], ['CKV_AWS_21', SeverityLevel.CRITICAL]])],
+        ['organization', new Map()],
+        ['github', new Map([['CKV_AWS_20', SeverityLevel.MEDIUM], ['CKV_AWS_21', SeverityLevel.MEDIUM], ['CKV_AWS_18', SeverityLevel.INFO]])]
+    ];
+
+    test('takes the severity of the first layer that rates a check', () => {
+        assert.deepStrictEqual(lookupSeverity(layers, 'CKV_AWS_20'), { severity: SeverityLevel.LOW, source: 'workspace' });
+        assert.deepStrictEqual(lookupSeverity(layers, 'CKV_AWS_21'), { severity: SeverityLevel.CRITICAL, source: 'user' });
+        assert.deepStrictEqual(lookupSeverity(layers, 'CKV_AWS_18'), { severity: SeverityLevel.INFO, source: 'github' });
+    });
+
+    test('ignores the case of check IDs and has no severity for unrated checks', () => {
+        assert.deepStrictEqual(lookupSeverity(layers, 'ckv_aws_21'), { severity: SeverityLevel.CRITICAL, source: 'user' });
+        assert.strictEqual(lookupSeverity(layers, 'CKV_AWS_19'), null);
+    });
+
+    test('reads overrides as a map of check IDs or in the format of the GitHub mappings', () => {
+        const expected = new Map([['CKV_AWS_20', SeverityLevel.HIGH], ['CKV_K8S_21', SeverityLevel.LOW]]);
+        assert.deepStrictEqual(parseSeverityOverrides({ ckv_aws_20: 'high', CKV_K8S_21: 'LOW' }, ignoreInvalid), expected);
+        assert.deepStrictEqual(parseSeverityOverrides({ metadata: {}, mappings: { CKV_AWS_20: 'HIGH', CKV_K8S_21: 'low' } }, ignoreInvalid), expected);
+        assert.deepStrictEqual(parseSeverityOverrides(null, ignoreInvalid), new Map());
+    });
+
+    test('skips invalid severities without dropping the layer', () => {
+        const invalid: [string, unknown][] = [];
+        const overrides = parseSeverityOverrides({ CKV_AWS_20: 'urgent', CKV_AWS_21: 'HIGH' }, (checkId, severity) => invalid.push([checkId, severity]));
+        assert.deepStrictEqual(overrides, new Map([['CKV_AWS_21', SeverityLevel.HIGH]]));
+        assert.deepStrictEqual(invalid, [['CKV_AWS_20', 'urgent']]);
+    });
+});
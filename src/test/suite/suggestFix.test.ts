@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { FailedCheckovCheck } from '../../checkov';
+import { createCombinedFixEdit } from '../../suggestFix';
+
+const failedCheck = (checkId: string, fileLineRange: [number, number], fixedDefinition?: string): FailedCheckovCheck => ({
+    checkId,
+    checkName: checkId,
+    fileLineRange,
+    resource: 'resource',
+    fixedDefinition
+});
+
+suite('Fix all', () => {
+    test('combines the fixes of separate blocks from the bottom up', async () => {
+        const content = 'resource "aws_s3_bucket" "data" {\n}\nresource "aws_s3_bucket" "logs" {\n}\n';
+        const document = await vscode.workspace.openTextDocument({ language: 'terraform', content });
+        const dataFix = failedCheck('CKV_AWS_20', [1, 2], 'resource "aws_s3_bucket" "data" {\n  acl = "private"\n}');
+        const logsFix = failedCheck('CKV_AWS_21', [3, 4], 'resource "aws_s3_bucket" "logs" {\n  acl = "private"\n}');
+
+        const { edit, applied, skipped } = createCombinedFixEdit(document, [dataFix, logsFix, failedCheck('CKV_AWS_18', [1, 2])]);
+        assert.deepStrictEqual(applied, [logsFix, dataFix]);
+        assert.deepStrictEqual(skipped, []);
+        assert.deepStrictEqual(edit.get(document.uri).map(textEdit => [textEdit.range.start.line, textEdit.newText]), [[2, logsFix.fixedDefinition], [0, dataFix.fixedDefinition]]);
+    });
+
+    test('skips fixes of a block that another fix already replaces', async () => {
+        const content = 'resource "aws_s3_bucket" "data" {\n  bucket = "data"\n}\n';
+        const document = await vscode.workspace.openTextDocument({ language: 'terraform', content });
+        const aclFix = failedCheck('CKV_AWS_20', [1, 3], 'resource "aws_s3_bucket" "data" {\n  bucket = "data"\n  acl = "private"\n}');
+        const versioningFix = failedCheck('CKV_AWS_21', [1, 3], 'resource "aws_s3_bucket" "data" {\n  bucket = "data"\n  versioning {\n    enabled = true\n  }\n}');
+
+        const { edit, applied, skipped } = createCombinedFixEdit(document, [aclFix, versioningFix]);
+        assert.deepStrictEqual(applied, [aclFix]);
+        assert.deepStrictEqual(skipped, [versioningFix]);
+        assert.strictEqual(edit.get(document.uri).length, 1);
+    });
+});
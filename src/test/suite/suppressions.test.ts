@@ -0,0 +1,98 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { FailedCheckovCheck } from '../../checkov';
+import { canSuppressCheck, createSuppressionEdit, SKIP_REASON_PLACEHOLDER } from '../../suppressions';
+import { findSuppressions } from '../../suppressionInventory';
+
+const failedCheck = (checkId: string, fileLineRange: [number, number], checkType: string): FailedCheckovCheck => ({
+    checkId,
+    checkName: checkId,
+    fileLineRange,
+    resource: 'resource',
+    checkType
+});
+
+const suppress = async (language: string, content: string, checks: FailedCheckovCheck[]): Promise<string> => {
+    const document = await vscode.workspace.openTextDocument({ language, content });
+    const [edit] = createSuppressionEdit(document, checks).get(document.uri);
+    const offset = document.offsetAt(edit.range.start);
+    return content.substring(0, offset) + edit.newText + content.substring(offset);
+};
+
+suite('Suppressions', () => {
+    test('writes skip comments on the line after the resource header', async () => {
+        const content = 'resource "aws_s3_bucket" "data" {\n  bucket = "data"\n}\n';
+        const suppressed = await suppress('terraform', content, [failedCheck('CKV_AWS_20', [1, 3], 'terraform'), failedCheck('CKV_AWS_21', [1, 3], 'terraform')]);
+        assert.strictEqual(suppressed, 'resource "aws_s3_bucket" "data" {\n'
+            + `  # checkov:skip=CKV_AWS_20: ${SKIP_REASON_PLACEHOLDER}\n`
+            + `  # checkov:skip=CKV_AWS_21: ${SKIP_REASON_PLACEHOLDER}\n`
+            + '  bucket = "data"\n}\n');
+    });
+
+    test('does not offer skip comments for blocks written on a single line', async () => {
+        const cases: [string, string, FailedCheckovCheck][] = [
+            ['terraform', 'resource "aws_s3_bucket" "data" {}\nresource "aws_s3_bucket" "logs" {\n}\n', failedCheck('CKV_AWS_20', [1, 1], 'terraform')],
+            ['yaml', 'jobs:\n  build: {runs-on: ubuntu-latest}\n', failedCheck('CKV2_GHA_1', [2, 2], 'github_actions')]
+        ];
+        for (const [language, content, check] of cases) {
+            const document = await vscode.workspace.openTextDocument({ language, content });
+            assert.strictEqual(canSuppressCheck(document, check), false);
+            assert.strictEqual(createSuppressionEdit(document, [check]).size, 0);
+        }
+    });
+
+    test('adds Kubernetes skip annotations to the metadata', async () => {
+        const content = 'apiVersion: v1\nkind: Pod\nmetadata:\n  name: web\nspec:\n  containers: []\n';
+        const suppressed = await suppress('yaml', content, [failedCheck('CKV_K8S_20', [1, 6], 'kubernetes')]);
+        assert.strictEqual(suppressed, 'apiVersion: v1\nkind: Pod\nmetadata:\n'
+            + `  annotations:\n    checkov.io/skip1: CKV_K8S_20=${SKIP_REASON_PLACEHOLDER}\n`
+            + '  name: web\nspec:\n  containers: []\n');
+    });
+
+    test('continues the numbering of existing Kubernetes skip annotations', async () => {
+        const content = 'metadata:\n  annotations:\n    checkov.io/skip1: CKV_K8S_20=reviewed\n  name: web\n';
+        const suppressed = await suppress('yaml', content, [failedCheck('CKV_K8S_21', [1, 4], 'kubernetes')]);
+        assert.strictEqual(suppressed, 'metadata:\n  annotations:\n    checkov.io/skip1: CKV_K8S_20=reviewed\n'
+            + `    checkov.io/skip2: CKV_K8S_21=${SKIP_REASON_PLACEHOLDER}\n`
+            + '  name: web\n');
+    });
+
+    test('adds CloudFormation skips to the resource metadata', async () => {
+        const content = 'Resources:\n  Bucket:\n    Type: AWS::S3::Bucket\n    Properties:\n      BucketName: data\n';
+        const suppressed = await suppress('yaml', content, [failedCheck('CKV_AWS_18', [2, 5], 'cloudformation')]);
+        assert.strictEqual(suppressed, 'Resources:\n  Bucket:\n'
+            + `    Metadata:\n      checkov:\n        skip:\n          - id: CKV_AWS_18\n            comment: ${SKIP_REASON_PLACEHOLDER}\n`
+            + '    Type: AWS::S3::Bucket\n    Properties:\n      BucketName: data\n');
+    });
+
+    test('finds the suppressions it writes', () => {
+        const text = [
+            'resource "aws_s3_bucket" "data" {',
+            '  # checkov:skip=CKV_AWS_20: the bucket is public on purpose',
+            `  # checkov:skip=CKV_AWS_21: ${SKIP_REASON_PLACEHOLDER}`,
+            '}',
+            'metadata:',
+            '  annotations:',
+            '    checkov.io/skip1: CKV_K8S_20=reviewed',
+            'Metadata:',
+            '  checkov:',
+            '    skip:',
+            '      - id: CKV_AWS_18',
+            '        comment: logs are kept elsewhere'
+        ].join('\n');
+
+        assert.deepStrictEqual(findSuppressions('main.tf', text), [
+            { checkId: 'CKV_AWS_20', reason: 'the bucket is public on purpose', line: 1, kind: 'comment' },
+            { checkId: 'CKV_AWS_21', reason: SKIP_REASON_PLACEHOLDER, line: 2, kind: 'comment' },
+            { checkId: 'CKV_K8S_20', reason: 'reviewed', line: 6, kind: 'kubernetes' },
+            { checkId: 'CKV_AWS_18', reason: 'logs are kept elsewhere', line: 10, kind: 'cloudformation' }
+        ]);
+    });
+
+    test('finds skips in JSON CloudFormation templates', () => {
+        const text = '{\n  "Metadata": {"checkov": {"skip": [{"id": "CKV_AWS_18", "comment": "logs are kept elsewhere"}]}}\n}';
+        assert.deepStrictEqual(findSuppressions('template.json', text), [
+            { checkId: 'CKV_AWS_18', reason: 'logs are kept elsewhere', line: 1, kind: 'cloudformation' }
+        ]);
+    });
+});
@@ -49,6 +49,12 @@ export const setMissingConfigurationStatusBarItem = (version: string | undefined
 
 export const setSyncingStatusBarItem = (version: string | undefined, text = 'Checkov'): void => {
     statusBarItem.text = getStatusBarText('sync~spin', version, text);
+    statusBarItem.tooltip = undefined;
+};
+
+export const setOfflineMissingStatusBarItem = (missing: string): void => {
+    statusBarItem.text = getStatusBarText('cloud-offline', undefined, 'Checkov offline: not installed');
+    statusBarItem.tooltip = `${missing}. Install it while online, or turn off the offline setting.`;
 };
 
 export const setErrorStatusBarItem = (version: string | undefined): void => {
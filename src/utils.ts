@@ -1,7 +1,7 @@
 import * as vscode from 'vscode';
 import * as crypto from 'crypto';
 import * as fs from 'fs';
-import { exec, ExecOptions } from 'child_process';
+import { exec, execFile, ExecOptions, ExecFileOptions } from 'child_process';
 import winston, { Logger } from 'winston';
 import { FailedCheckovCheck } from './checkov';
 import { DiagnosticReferenceCode } from './diagnostics';
@@ -9,7 +9,7 @@ import { CHECKOV_MAP } from './extension';
 import { showUnsupportedFileMessage } from './userInterface';
 import * as path from 'path';
 import { FileCache, ResultsCache } from './checkov/models';
-import { getSeverityProvider } from './severityProvider';
+import { getSeverityProvider, severitySourceLabels } from './severityProvider';
 
 
 const extensionData = vscode.extensions.getExtension('bridgecrew.checkov');
@@ -20,6 +20,7 @@ export const isWindows = process.platform === 'win32';
 export const cacheDateKey = 'CKV_CACHE_DATE';
 export const cacheResultsKey = 'CKV_CACHE_RESULTS';
 export const checkovVersionKey = 'CKV_VERSION';
+export const checkCatalogKey = 'CKV_CHECK_CATALOG';
 
 const maxCacheSizePerFile = 10;
 
@@ -43,6 +44,19 @@ export const asyncExec = async (commandToExecute: string, options: ExecOptions =
     });
 };
 
+/**
+ * Like `asyncExec`, but runs the executable without a shell, so arguments are passed as they are
+ */
+export const asyncExecFile = async (file: string, args: string[], options: ExecFileOptions = {}): Promise<ExecOutput> => {
+    const defaultOptions: ExecFileOptions = { maxBuffer: 1024 * 1000 };
+    return new Promise((resolve, reject) => {
+        execFile(file, args, { ...defaultOptions, ...options }, (err, stdout, stderr) => {
+            if (err) { return reject(err); }
+            resolve([stdout.toString(), stderr.toString()]);
+        });
+    });
+};
+
 export const isSupportedFileType = (fileName: string, showMessage = false): boolean => {
     const isExtensionNotSupported = unsupportedExtensions.some(extension => fileName.endsWith(extension));
     const isFileNameNotSupported = unsupportedFileNames.some(name => fileName.match(name));
@@ -75,6 +89,8 @@ export const createDiagnosticKey = (diagnostic: vscode.Diagnostic): string => {
     return `${checkId}-${diagnostic.range.start.line + 1}`;
 };
 export const createCheckovKey = (checkovFail: FailedCheckovCheck): string => `${checkovFail.checkId}-${checkovFail.fileLineRange[0]}`;
+// Unlike createCheckovKey, this identifies the same finding across versions of a file, even when its lines moved
+export const createCheckovIdentityKey = (checkovFail: FailedCheckovCheck): string => `${checkovFail.checkId}-${checkovFail.resource}`;
 
 export const getLogger = (logFileDir: string, logFileName: string): winston.Logger => winston.createLogger({
     level: 'debug',
@@ -107,10 +123,18 @@ export const convertToUnixPath = (path: string): string => {
     return `"${path.replace(/\\/g, '/')}"`;
 };
 
-export const getWorkspacePath = (logger: winston.Logger): string | void => {
+/**
+ * Returns the path of the workspace folder that owns the given file. Files outside of every workspace folder
+ * (or calls without a file) fall back to the first workspace folder.
+ */
+export const getWorkspacePath = (logger: winston.Logger, filePath?: string): string | void => {
     if(vscode.workspace) {
         if(vscode.workspace.workspaceFolders) {
-            return vscode.workspace.workspaceFolders[0].uri.fsPath;
+            const owningFolder = filePath ? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath)) : undefined;
+            if (filePath && !owningFolder) {
+                logger.debug(`${filePath} is not inside any workspace folder, falling back to the first one`);
+            }
+            return (owningFolder || vscode.workspace.workspaceFolders[0]).uri.fsPath;
         } else {
             logger.warn('No folder open in workspace.');
         }
@@ -119,8 +143,11 @@ export const getWorkspacePath = (logger: winston.Logger): string | void => {
     return;
 };
 
-export const runVersionCommand = async (logger: winston.Logger, checkovPath: string, checkovVersion: string | undefined): Promise<string> => {
-    const command = checkovPath === 'docker' ? `docker run --rm --interactive bridgecrew/checkov:${checkovVersion} -v` : `${checkovPath} -v`;
+/**
+ * Version of a Checkov executable; container installations know theirs from installing the image
+ */
+export const runVersionCommand = async (logger: winston.Logger, checkovPath: string): Promise<string> => {
+    const command = `${checkovPath} -v`;
     logger.debug(`Version command: ${command}`);
     const resp = await asyncExec(command);
     logger.debug(`Response from version command: ${resp[0]}`);
@@ -132,7 +159,7 @@ export const getGitRepoName = async (logger: winston.Logger, filename: string |
         logger.debug('Filename was empty when getting git repo; returning default');
         return null;
     }
-    const cwd = path.dirname(filename);
+    const cwd = isDirectory(filename) ? filename : path.dirname(filename);
     try {
         const output = await asyncExec('git remote -v', { cwd });
 
@@ -177,6 +204,30 @@ export const getGitRepoName = async (logger: winston.Logger, filename: string |
     return null;
 };
 
+/**
+ * Returns the content of the file at the merge-base of HEAD and the given ref, or null when it cannot be determined
+ * (not a git repository, unknown ref, or a file that did not exist at the merge-base)
+ */
+export const getMergeBaseFileContent = async (logger: winston.Logger, filename: string, baseRef: string): Promise<string | null> => {
+    const cwd = path.dirname(filename);
+    if (baseRef.startsWith('-')) {
+        // git would read it as an option
+        logger.warn(`Ignoring base branch ${baseRef}, which is not a valid ref`);
+        return null;
+    }
+    try {
+        const [repoRoot] = await asyncExecFile('git', ['rev-parse', '--show-toplevel'], { cwd });
+        const [mergeBase] = await asyncExecFile('git', ['merge-base', 'HEAD', baseRef], { cwd });
+        const relativePath = path.relative(repoRoot.trim(), filename).split(path.sep).join('/');
+        logger.debug(`Merge-base of HEAD and ${baseRef} is ${mergeBase.trim()}; reading ${relativePath}`);
+        const [content] = await asyncExecFile('git', ['show', `${mergeBase.trim()}:${relativePath}`], { cwd, maxBuffer: 1024 * 1024 * 10 });
+        return content;
+    } catch (error) {
+        logger.debug(`Could not read ${filename} at the merge-base with ${baseRef}; returning null`, { error });
+        return null;
+    }
+};
+
 export const getDockerPathParams = (workspaceRoot: string | undefined, filePath: string): [string | null, string] => {
     if (!workspaceRoot) {
         return [null, filePath];
@@ -215,6 +266,49 @@ export const normalizePath = (filePath: string): string[] => {
     return [path.basename(absPath), absPath];
 };
 
+export const isDirectory = (filePath: string): boolean => {
+    try {
+        return fs.statSync(filePath).isDirectory();
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    } catch (error) {
+        return false;
+    }
+};
+
+const resolveFailedCheckFilePath = (scanRoot: string, failedCheck: FailedCheckovCheck): string | undefined => {
+    // file_path is relative to the scanned directory (e.g. /modules/s3/main.tf), which also holds for Docker runs.
+    // file_abs_path is only meaningful for local runs, as Docker reports paths inside the container.
+    if (failedCheck.filePath) {
+        const candidate = path.join(scanRoot, failedCheck.filePath);
+        if (fs.existsSync(candidate)) return candidate;
+    }
+    if (failedCheck.fileAbsPath && fs.existsSync(failedCheck.fileAbsPath)) {
+        return failedCheck.fileAbsPath;
+    }
+    return undefined;
+};
+
+/**
+ * Groups the results of a directory scan by the absolute path of the file each check failed in
+ */
+export const getFailedChecksByFile = (scanRoot: string, failedChecks: FailedCheckovCheck[], logger: Logger): Map<string, FailedCheckovCheck[]> => {
+    const checksByFile = new Map<string, FailedCheckovCheck[]>();
+    for (const failedCheck of failedChecks) {
+        const filePath = resolveFailedCheckFilePath(scanRoot, failedCheck);
+        if (!filePath) {
+            logger.debug(`Could not resolve the file of ${failedCheck.checkId}, skipping it`, { filePath: failedCheck.filePath, fileAbsPath: failedCheck.fileAbsPath });
+            continue;
+        }
+        checksByFile.set(filePath, [...(checksByFile.get(filePath) || []), failedCheck]);
+    }
+    return checksByFile;
+};
+
+export const isPathInside = (parentPath: string, childPath: string): boolean => {
+    const relative = path.relative(parentPath, childPath);
+    return relative.length > 0 && !relative.startsWith('..') && !path.isAbsolute(relative);
+};
+
 export const getFileHash = (filename: string): string => {
     const fileBuffer = fs.readFileSync(filename);
     const hashSum = crypto.createHash('md5');
@@ -252,12 +346,48 @@ export const saveCachedResults = (context: vscode.ExtensionContext, fileHash: st
     }
 };
 
+/**
+ * Returns one cached entry per existing file: the one matching the file's current content, or else the most recently saved one
+ */
+export const getAllCachedResults = (context: vscode.ExtensionContext, logger: Logger): FileScanCacheEntry[] => {
+    validateCacheExpiration(context, logger);
+    const cache: ResultsCache | undefined = context.workspaceState.get(cacheResultsKey);
+    if (!cache) return [];
+
+    // entries that are not files on disk (e.g. merge-base results) are internal to the extension
+    return Object.entries(cache).filter(([filename]) => fs.existsSync(filename)).map(([filename, fileCache]) => {
+        try {
+            const currentEntry = findSavedScanForFile(getFileHash(filename), filename, fileCache);
+            if (currentEntry) return currentEntry;
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        } catch (error) {
+            logger.debug(`Could not hash ${filename}, using its most recent cached results`);
+        }
+        return getMostRecentScanForFile(fileCache);
+    }).filter((entry): entry is FileScanCacheEntry => entry !== undefined);
+};
+
 export const clearCache = (context: vscode.ExtensionContext, logger: Logger): void => {
     logger.debug('Clearing results cache');
     context.workspaceState.update(cacheResultsKey, undefined);  // undefined removes the key
     context.workspaceState.update(cacheDateKey, undefined);
 };
 
+/**
+ * Drops the cached results of every file under the given directory, e.g. after a config file in it changed
+ */
+export const clearCachedResultsUnder = (context: vscode.ExtensionContext, directory: string, logger: Logger): void => {
+    const cache: ResultsCache | undefined = context.workspaceState.get(cacheResultsKey);
+    if (!cache) return;
+
+    const affectedFiles = Object.keys(cache).filter(filename => isPathInside(directory, filename));
+    logger.debug(`Clearing cached results of ${affectedFiles.length} files under ${directory}`);
+    for (const filename of affectedFiles) {
+        delete cache[filename];
+    }
+    context.workspaceState.update(cacheResultsKey, cache);
+};
+
 const getDate = (): number => {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -295,6 +425,14 @@ const findSavedScanForFile = (fileHash: string, filename: string, fileCache: Fil
     return fileCache.elements.find(e => e.fileHash === fileHash && e.filename === filename);
 };
 
+const getMostRecentScanForFile = (fileCache: FileCache): FileScanCacheEntry | undefined => {
+    if (fileCache.elements.length < maxCacheSizePerFile) {
+        return fileCache.elements[fileCache.elements.length - 1];
+    }
+    // once full, `oldest` points to the next slot to overwrite, so the newest entry sits right before it
+    return fileCache.elements[(fileCache.oldest + fileCache.elements.length - 1) % fileCache.elements.length];
+};
+
 const fileCacheContainsEntry = (element: FileScanCacheEntry, fileCache: FileCache): boolean => {
     return findSavedScanForFile(element.fileHash, element.filename, fileCache) !== undefined;
 };
@@ -315,6 +453,7 @@ export const loadSeverityMappings = (logger?: Logger): void => {
         if (logger) {
             logger.debug(`Severity provider initialized with ${stats.totalMappings} mappings (version: ${stats.version})`);
             logger.debug(`Last updated: ${stats.lastUpdate}`);
+            logger.debug(`Severities by source: ${JSON.stringify(stats.sources)}`);
         }
     } else {
         if (logger) {
@@ -346,6 +485,16 @@ export const getSeverityForCheckId = (checkId: string, logger?: Logger): string
     return 'UNKNOWN';
 };
 
+/**
+ * Describes the layer of the severity mappings the severity of a check ID comes from
+ * @param checkId The Checkov check ID (e.g., "CKV_AWS_1")
+ * @returns e.g. "workspace override", or undefined if no layer rates the check
+ */
+export const getSeveritySourceForCheckId = (checkId: string): string | undefined => {
+    const source = getSeverityProvider().getSeveritySource(checkId);
+    return source ? severitySourceLabels[source] : undefined;
+};
+
 /**
  * Maps Checkov severity strings to VS Code diagnostic severity levels
  * @param severity The Checkov severity string